@@ -7,6 +7,9 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
+import Calendar from "./pages/Calendar";
+import Trash from "./pages/Trash";
+import TaskDetail from "./pages/TaskDetail";
 import Admin from "./pages/Admin";
 import Profile from "./pages/Profile";
 import Settings from "./pages/Settings";
@@ -29,6 +32,10 @@ const App = () => {
 
     // Subscribe to auth changes
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      // Cached queries (tasks, saved and pinned views, templates) belong to the user who fetched them
+      if (event === 'SIGNED_OUT') {
+        queryClient.clear();
+      }
       setAuthenticated(!!session);
       setInitialized(true);
     });
@@ -58,6 +65,18 @@ const App = () => {
               path="/dashboard" 
               element={authenticated ? <Dashboard /> : <Navigate to="/login" />} 
             />
+            <Route 
+              path="/tasks/:id" 
+              element={authenticated ? <TaskDetail /> : <Navigate to="/login" />} 
+            />
+            <Route 
+              path="/calendar" 
+              element={authenticated ? <Calendar /> : <Navigate to="/login" />} 
+            />
+            <Route 
+              path="/trash" 
+              element={authenticated ? <Trash /> : <Navigate to="/login" />} 
+            />
             <Route 
               path="/admin" 
               element={authenticated ? <Admin /> : <Navigate to="/login" />} 
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Task, TaskStatus } from '@/lib/supabase';
+import { getOpenBlockers } from '@/lib/dependencies';
+import { getStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { StatusBadge } from './ui-components';
+
+interface BlockedTaskDialogProps {
+  // The blocked task and the status it was about to move to; the dialog is open while set
+  task: Task | null;
+  status: TaskStatus | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks before moving a task on while its blockers aren't finished
+const BlockedTaskDialog: React.FC<BlockedTaskDialogProps> = ({ task, status, onConfirm, onCancel }) => {
+  const workflow = useWorkflow();
+  const blockers = task ? getOpenBlockers(task, workflow) : [];
+
+  return (
+    <AlertDialog open={!!task} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This task is blocked</AlertDialogTitle>
+          <AlertDialogDescription>
+            "{task?.title}" is waiting on {blockers.length === 1 ? 'a task that isn\'t' : `${blockers.length} tasks that aren't`} finished yet.
+            Move it to {status ? getStatus(workflow, status).name : ''} anyway?
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-1 text-sm">
+          {blockers.map(blocker => (
+            <li key={blocker.id} className="flex items-center justify-between gap-2">
+              <Link to={`/tasks/${blocker.id}`} className="truncate hover:underline">
+                {blocker.title}
+              </Link>
+              <StatusBadge status={blocker.status} />
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>Move anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default BlockedTaskDialog;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CalendarIcon,
+  CheckCircle2,
+  Flag,
+  Loader2,
+  Tag as TagIcon,
+  Trash2,
+  UserIcon,
+  X
+} from 'lucide-react';
+import { BulkTaskChanges, Tag, getTags } from '@/lib/supabase';
+import { ICON_COLORS, STATUS_ICONS } from '@/lib/constants';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { TagBadge } from './ui-components';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // Tasks matching the current search and filters, loaded or not
+  matchingCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApply: (changes: BulkTaskChanges) => void;
+  isWorking?: boolean;
+  isAdmin?: boolean;
+  userEmails?: Record<string, string>;
+}
+
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  selectedCount,
+  matchingCount,
+  onSelectAll,
+  onClear,
+  onApply,
+  isWorking = false,
+  isAdmin = false,
+  userEmails = {},
+}) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const workflow = useWorkflow();
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags());
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const renderTagItems = (key: 'add_tag_id' | 'remove_tag_id') =>
+    tags.length === 0 ? (
+      <DropdownMenuItem disabled>No tags yet</DropdownMenuItem>
+    ) : (
+      tags.map(tag => (
+        <DropdownMenuItem key={tag.id} onClick={() => onApply({ [key]: tag.id })}>
+          <TagBadge tag={tag} />
+        </DropdownMenuItem>
+      ))
+    );
+
+  return (
+    <>
+      <Card className="sticky bottom-4 z-40 flex flex-wrap items-center gap-2 p-2 shadow-lg animate-fade-in">
+        <div className="flex items-center gap-2 px-2 text-sm">
+          {isWorking && <Loader2 className="h-4 w-4 animate-spin" />}
+          <span className="font-medium">{selectedCount} selected</span>
+          {selectedCount < matchingCount && (
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAll} disabled={isWorking}>
+              Select all {matchingCount}
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1 ml-auto">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <CheckCircle2 className="h-4 w-4 mr-1" />
+                Status
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              {/* Tasks the workflow won't let move come back as failures in the summary */}
+              {workflow.statuses.map(status => {
+                const Icon = STATUS_ICONS[status.icon];
+                return (
+                  <DropdownMenuItem key={status.key} onClick={() => onApply({ status: status.key })}>
+                    <Icon className={`mr-2 h-4 w-4 ${ICON_COLORS[status.color]}`} />
+                    {status.name}
+                  </DropdownMenuItem>
+                );
+              })}
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <Flag className="h-4 w-4 mr-1" />
+                Priority
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onClick={() => onApply({ priority: 3 })}>High</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onApply({ priority: 2 })}>Medium</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onApply({ priority: 1 })}>Low</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Popover open={showDatePicker} onOpenChange={setShowDatePicker}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <CalendarIcon className="h-4 w-4 mr-1" />
+                Due date
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="single"
+                onSelect={(date) => {
+                  if (!date) return;
+                  setShowDatePicker(false);
+                  onApply({ due_date: date.toISOString() });
+                }}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+              <div className="border-t p-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setShowDatePicker(false);
+                    onApply({ due_date: null });
+                  }}
+                >
+                  Clear due date
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" disabled={isWorking}>
+                <TagIcon className="h-4 w-4 mr-1" />
+                Tags
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>{renderTagItems('add_tag_id')}</DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>{renderTagItems('remove_tag_id')}</DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          {isAdmin && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={isWorking}>
+                  <UserIcon className="h-4 w-4 mr-1" />
+                  Owner
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="max-h-72 overflow-y-auto">
+                <DropdownMenuLabel>Reassign to</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {Object.entries(userEmails).map(([id, email]) => (
+                  <DropdownMenuItem key={id} onClick={() => onApply({ user_id: id })}>
+                    {email}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-600"
+            disabled={isWorking}
+            onClick={() => setConfirmDelete(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={onClear} aria-label="Clear selection">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </Card>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {selectedCount} {selectedCount === 1 ? 'task' : 'tasks'} to Trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their subtasks go to the Trash with them. You can restore them from the Trash later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => onApply({ delete: true })}
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default BulkActionBar;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { TaskFilters, TaskSort, getAllTasks } from '@/lib/supabase';
+import {
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  ExportDateStyle,
+  ExportFormat,
+  buildTasksExport,
+  downloadFile,
+  getExportFileName
+} from '@/lib/export';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+interface ExportTasksDialogProps {
+  filters: TaskFilters;
+  sort: TaskSort;
+  // Number of tasks matching the filters, shown before exporting
+  count: number;
+  userEmails: Record<string, string>;
+}
+
+const ExportTasksDialog: React.FC<ExportTasksDialogProps> = ({ filters, sort, count, userEmails }) => {
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const [dateStyle, setDateStyle] = useState<ExportDateStyle>('iso');
+  const [selectedColumns, setSelectedColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleColumn = (key: string) => {
+    setSelectedColumns(prevColumns =>
+      prevColumns.includes(key) ? prevColumns.filter(column => column !== key) : [...prevColumns, key]
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      // The list only holds the pages scrolled so far, so fetch every matching task
+      const tasks = await getAllTasks({ filters, sort });
+      // Keep the columns in their canonical order rather than the order they were ticked
+      const columns = EXPORT_COLUMNS.filter(column => selectedColumns.includes(column.key));
+      const content = buildTasksExport(tasks, columns, userEmails, { format: exportFormat, dateStyle });
+
+      downloadFile(content, getExportFileName(exportFormat), MIME_TYPES[exportFormat]);
+      toast.success(`Exported ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`);
+      setOpen(false);
+    } catch (error) {
+      toast.error('Failed to export tasks: ' + (error as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export tasks</DialogTitle>
+          <DialogDescription>
+            Downloads the {count} {count === 1 ? 'task' : 'tasks'} matching the current search and filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="csv" id="export-csv" />
+                  <Label htmlFor="export-csv" className="font-normal">CSV</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="json" id="export-json" />
+                  <Label htmlFor="export-json" className="font-normal">JSON</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Dates</Label>
+              <RadioGroup value={dateStyle} onValueChange={(value) => setDateStyle(value as ExportDateStyle)}>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="iso" id="export-dates-iso" />
+                  <Label htmlFor="export-dates-iso" className="font-normal">ISO 8601</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="localized" id="export-dates-localized" />
+                  <Label htmlFor="export-dates-localized" className="font-normal">
+                    Localized ({new Date().toLocaleDateString()})
+                  </Label>
+                </div>
+              </RadioGroup>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setSelectedColumns(EXPORT_COLUMNS.map(column => column.key))}
+                >
+                  All
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setSelectedColumns([])}
+                >
+                  None
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_COLUMNS.map(column => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selectedColumns.includes(column.key)}
+                    onCheckedChange={() => toggleColumn(column.key)}
+                  />
+                  <Label htmlFor={`export-column-${column.key}`} className="font-normal">{column.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || selectedColumns.length === 0 || count === 0}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            Export {exportFormat.toUpperCase()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportTasksDialog;
@@ -0,0 +1,78 @@
+import React, { useRef, useState } from 'react';
+import { UploadCloud } from 'lucide-react';
+import { ATTACHMENT_ALLOWED_TYPES, ATTACHMENT_MAX_SIZE } from '@/lib/constants';
+import { cn } from '@/lib/utils';
+
+interface FileDropzoneProps {
+  onFiles: (files: File[]) => void;
+  disabled?: boolean;
+  className?: string;
+  // Defaults describe task attachments; other uploads pass their own
+  accept?: string;
+  hint?: string;
+  multiple?: boolean;
+}
+
+const FileDropzone: React.FC<FileDropzoneProps> = ({
+  onFiles,
+  disabled = false,
+  className,
+  accept = ATTACHMENT_ALLOWED_TYPES.join(','),
+  hint = `Images, PDF, text and Office documents up to ${ATTACHMENT_MAX_SIZE / (1024 * 1024)} MB`,
+  multiple = true
+}) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0 || disabled) return;
+    onFiles(Array.from(fileList));
+  };
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => inputRef.current?.click()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          inputRef.current?.click();
+        }
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+      className={cn(
+        "flex flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed p-4 text-center text-sm text-muted-foreground cursor-pointer transition-colors",
+        isDragging ? "border-primary bg-primary/5" : "border-gray-200 hover:border-gray-300",
+        disabled && "pointer-events-none opacity-50",
+        className
+      )}
+    >
+      <UploadCloud className="h-5 w-5" />
+      <span>Drop {multiple ? 'files' : 'a file'} here or click to browse</span>
+      <span className="text-xs">{hint}</span>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple={multiple}
+        accept={accept}
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
+
+export default FileDropzone;
@@ -0,0 +1,386 @@
+import React, { useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, CornerDownRight, FileText, Upload } from 'lucide-react';
+import {
+  IMPORT_FIELDS,
+  ImportRow,
+  ImportSource,
+  ColumnMapping,
+  CsvData,
+  RawImportRow,
+  parseCsv,
+  guessColumnMapping,
+  csvToImportRows,
+  parseTodoistCsv,
+  parseTodoistJson,
+  parseTrelloJson,
+  validateImportRows,
+  importTasks
+} from '@/lib/import';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useWorkflow } from '@/hooks/use-workflow';
+import FileDropzone from './FileDropzone';
+import { StatusBadge, PriorityIndicator } from './ui-components';
+
+type Step = 'source' | 'mapping' | 'preview' | 'importing' | 'done';
+
+const SOURCES: { value: ImportSource; label: string; description: string; accept: string }[] = [
+  {
+    value: 'csv',
+    label: 'CSV file',
+    description: 'Any spreadsheet export. You choose which column holds which field.',
+    accept: '.csv,text/csv',
+  },
+  {
+    value: 'todoist',
+    label: 'Todoist',
+    description: 'A project exported as CSV, or a JSON backup.',
+    accept: '.csv,.json,text/csv,application/json',
+  },
+  {
+    value: 'trello',
+    label: 'Trello',
+    description: 'A board exported as JSON. Checklist items become subtasks.',
+    accept: '.json,application/json',
+  },
+];
+
+// Select values can't be empty, so unmapped fields use a sentinel
+const UNMAPPED = 'none';
+
+interface ImportTasksDialogProps {
+  onImported: (count: number) => void;
+}
+
+const ImportTasksDialog: React.FC<ImportTasksDialogProps> = ({ onImported }) => {
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('source');
+  const [source, setSource] = useState<ImportSource>('csv');
+  const [fileName, setFileName] = useState('');
+  const [csvData, setCsvData] = useState<CsvData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [progress, setProgress] = useState(0);
+  const workflow = useWorkflow();
+  const [importedCount, setImportedCount] = useState(0);
+
+  const validRows = rows.filter(row => row.values);
+  const invalidCount = rows.length - validRows.length;
+  const rowsByKey = new Map(rows.map(row => [row.key, row]));
+
+  const reset = () => {
+    setStep('source');
+    setFileName('');
+    setCsvData(null);
+    setMapping({});
+    setRows([]);
+    setProgress(0);
+    setImportedCount(0);
+  };
+
+  const showPreview = (rawRows: RawImportRow[]) => {
+    if (rawRows.length === 0) {
+      toast.error('No tasks were found in this file');
+      return;
+    }
+
+    setRows(validateImportRows(rawRows, workflow));
+    setStep('preview');
+  };
+
+  const handleFile = async ([file]: File[]) => {
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json';
+      setFileName(file.name);
+
+      if (isJson) {
+        if (source === 'csv') throw new Error('Choose Todoist or Trello to import a JSON file');
+        const data = JSON.parse(text);
+        showPreview(source === 'trello' ? parseTrelloJson(data, workflow) : parseTodoistJson(data));
+        return;
+      }
+
+      if (source === 'trello') throw new Error('Trello boards are exported as JSON');
+
+      const [headers = [], ...dataRows] = parseCsv(text);
+      const csv = { headers, rows: dataRows };
+
+      if (source === 'todoist') {
+        showPreview(parseTodoistCsv(csv));
+        return;
+      }
+
+      setCsvData(csv);
+      setMapping(guessColumnMapping(headers));
+      setStep('mapping');
+    } catch (error) {
+      const message = error instanceof SyntaxError ? 'The file is not valid JSON' : (error as Error).message;
+      toast.error('Failed to read file: ' + message);
+    }
+  };
+
+  const handleImport = async () => {
+    setStep('importing');
+    setProgress(0);
+
+    try {
+      const count = await importTasks(rows, (done, total) => setProgress(Math.round((done / total) * 100)));
+      setImportedCount(count);
+      setStep('done');
+      onImported(count);
+    } catch (error) {
+      toast.error('Import failed: ' + (error as Error).message);
+      setStep('preview');
+    }
+  };
+
+  const renderSourceStep = () => (
+    <div className="space-y-4">
+      <RadioGroup value={source} onValueChange={(value) => setSource(value as ImportSource)} className="space-y-2">
+        {SOURCES.map(option => (
+          <Label
+            key={option.value}
+            htmlFor={`import-source-${option.value}`}
+            className={cn(
+              "flex items-start gap-3 rounded-md border p-3 font-normal cursor-pointer",
+              source === option.value && "border-primary bg-primary/5"
+            )}
+          >
+            <RadioGroupItem value={option.value} id={`import-source-${option.value}`} className="mt-0.5" />
+            <div className="space-y-0.5">
+              <p className="font-medium">{option.label}</p>
+              <p className="text-xs text-muted-foreground">{option.description}</p>
+            </div>
+          </Label>
+        ))}
+      </RadioGroup>
+
+      <FileDropzone
+        onFiles={handleFile}
+        accept={SOURCES.find(option => option.value === source).accept}
+        hint={source === 'trello' ? 'JSON board export' : source === 'todoist' ? 'CSV or JSON export' : 'CSV with a header row'}
+        multiple={false}
+      />
+    </div>
+  );
+
+  const renderMappingStep = () => (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Match the columns in <span className="font-medium text-foreground">{fileName}</span> to task fields.
+      </p>
+      {IMPORT_FIELDS.map(({ field, label, required }) => {
+        const columnIndex = mapping[field];
+        const sample = columnIndex !== undefined ? csvData?.rows[0]?.[columnIndex] : undefined;
+
+        return (
+          <div key={field} className="grid grid-cols-[7rem_1fr] items-center gap-3">
+            <Label>{label}{required && ' *'}</Label>
+            <div className="space-y-1 min-w-0">
+              <Select
+                value={columnIndex !== undefined ? String(columnIndex) : UNMAPPED}
+                onValueChange={(value) => setMapping(prevMapping => ({
+                  ...prevMapping,
+                  [field]: value === UNMAPPED ? undefined : Number(value),
+                }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                  {csvData?.headers.map((header, index) => (
+                    <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sample && <p className="text-xs text-muted-foreground truncate">e.g. {sample}</p>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const renderPreviewStep = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+        <span className="flex items-center gap-1">
+          <FileText className="h-4 w-4 text-muted-foreground" />
+          {fileName}
+        </span>
+        <span className="flex items-center gap-1 text-green-700">
+          <CheckCircle2 className="h-4 w-4" />
+          {validRows.length} ready
+        </span>
+        {invalidCount > 0 && (
+          <span className="flex items-center gap-1 text-red-600">
+            <AlertCircle className="h-4 w-4" />
+            {invalidCount} with errors will be skipped
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-80 overflow-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-24">Source</TableHead>
+              <TableHead>Title</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Priority</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead>Tags</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.key} className={cn(row.errors.length > 0 && "bg-red-50 hover:bg-red-50")}>
+                <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{row.source}</TableCell>
+                <TableCell className="max-w-[14rem]">
+                  <div className="flex items-center gap-1">
+                    {row.parentKey && rowsByKey.has(row.parentKey) && (
+                      <CornerDownRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="truncate">{row.title || <em className="text-muted-foreground">Untitled</em>}</span>
+                  </div>
+                  {row.errors.map(error => (
+                    <p key={error} className="flex items-center gap-1 text-xs text-red-600">
+                      <AlertCircle className="h-3 w-3 shrink-0" />
+                      {error}
+                    </p>
+                  ))}
+                  {row.warnings?.map(warning => (
+                    <p key={warning} className="flex items-center gap-1 text-xs text-amber-600">
+                      <AlertTriangle className="h-3 w-3 shrink-0" />
+                      {warning}
+                    </p>
+                  ))}
+                </TableCell>
+                <TableCell>{row.values && <StatusBadge status={row.values.status} />}</TableCell>
+                <TableCell>{row.values && <PriorityIndicator priority={row.values.priority} />}</TableCell>
+                <TableCell className="text-xs whitespace-nowrap">
+                  {row.values?.due_date?.toLocaleDateString()}
+                </TableCell>
+                <TableCell className="text-xs">{row.tags.join(', ')}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        // Closing mid-import would hide the progress but not stop the inserts
+        if (step === 'importing') return;
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-1" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Import tasks</DialogTitle>
+          <DialogDescription>
+            {step === 'source' && 'Bring in tasks from a spreadsheet, Todoist or Trello.'}
+            {step === 'mapping' && 'Choose which column holds each field.'}
+            {step === 'preview' && 'Check the tasks before importing them. Rows with errors are skipped.'}
+            {step === 'importing' && 'Creating tasks...'}
+            {step === 'done' && 'Import complete'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'source' && renderSourceStep()}
+        {step === 'mapping' && renderMappingStep()}
+        {step === 'preview' && renderPreviewStep()}
+        {step === 'importing' && (
+          <div className="space-y-2 py-6">
+            <Progress value={progress} />
+            <p className="text-center text-sm text-muted-foreground">{progress}%</p>
+          </div>
+        )}
+        {step === 'done' && (
+          <div className="flex flex-col items-center gap-2 py-6 text-center">
+            <CheckCircle2 className="h-10 w-10 text-green-500" />
+            <p className="font-medium">Imported {importedCount} {importedCount === 1 ? 'task' : 'tasks'}</p>
+            {invalidCount > 0 && (
+              <p className="text-sm text-muted-foreground">{invalidCount} rows with errors were skipped.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'mapping' && (
+            <>
+              <Button variant="outline" onClick={reset}>Back</Button>
+              <Button
+                onClick={() => showPreview(csvToImportRows(csvData, mapping))}
+                disabled={mapping.title === undefined}
+              >
+                Preview
+              </Button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <Button variant="outline" onClick={() => csvData ? setStep('mapping') : reset()}>Back</Button>
+              <Button onClick={handleImport} disabled={validRows.length === 0}>
+                Import {validRows.length} {validRows.length === 1 ? 'task' : 'tasks'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => {
+              setOpen(false);
+              reset();
+            }}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportTasksDialog;
@@ -11,10 +11,23 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
-import { LogOut, Settings, User, Menu, X } from 'lucide-react';
-import { signOut, getCurrentUser, getUserRole } from '@/lib/supabase';
+import { LogOut, Settings, User, Menu, X, Bookmark } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { signOut, getCurrentUser, getUserRole, getPinnedViews } from '@/lib/supabase';
+import { startOfflineSync, clearOfflineData, syncPendingMutations, getSyncState } from '@/lib/offline';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
 import { AnimatedContainer } from './ui-components';
+import SyncStatusIndicator from './SyncStatusIndicator';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -24,8 +37,15 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [userRole, setUserRole] = useState<string | null>(null);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  // Offline changes still queued when the user asked to sign out, waiting for confirmation
+  const [unsyncedCount, setUnsyncedCount] = useState(0);
   const navigate = useNavigate();
   
+  const { data: pinnedViews = [] } = useQuery({
+    queryKey: ['pinned-views'],
+    queryFn: getPinnedViews,
+  });
+  
   useEffect(() => {
     const fetchUser = async () => {
       try {
@@ -46,8 +66,32 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     fetchUser();
   }, [navigate]);
   
+  // Watch the connection and replay changes made offline once it's back
+  useEffect(() => startOfflineSync(), []);
+  
+  // Offline changes are sent first; any that still can't be synced are only dropped once the
+  // user confirms
   const handleSignOut = async () => {
     try {
+      await syncPendingMutations();
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    }
+    
+    const { pending } = getSyncState();
+    if (pending > 0) {
+      setUnsyncedCount(pending);
+      return;
+    }
+    
+    await confirmSignOut();
+  };
+  
+  const confirmSignOut = async () => {
+    setUnsyncedCount(0);
+    try {
+      // Cached tasks and unsynced changes belong to this user, so don't leave them on the device
+      await clearOfflineData().catch(error => console.error('Error clearing offline data:', error));
       await signOut();
       toast.success('Signed out successfully');
       navigate('/login');
@@ -77,6 +121,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             <Link to="/dashboard" className="font-medium transition-colors hover:text-primary">
               TaskHero
             </Link>
+            <SyncStatusIndicator />
           </div>
           
           {/* Mobile menu button */}
@@ -97,6 +142,28 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
             >
               Dashboard
             </Link>
+            <Link 
+              to="/calendar" 
+              className="text-sm font-medium transition-colors hover:text-primary"
+            >
+              Calendar
+            </Link>
+            <Link 
+              to="/trash" 
+              className="text-sm font-medium transition-colors hover:text-primary"
+            >
+              Trash
+            </Link>
+            {pinnedViews.map(view => (
+              <Link 
+                key={view.id}
+                to={`/dashboard?view=${view.id}`} 
+                className="flex items-center gap-1 text-sm font-medium transition-colors hover:text-primary"
+              >
+                <Bookmark className="h-3.5 w-3.5" />
+                {view.name}
+              </Link>
+            ))}
             {userRole === 'admin' && (
               <Link 
                 to="/admin" 
@@ -168,6 +235,34 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                 Dashboard
               </Link>
               
+              <Link 
+                to="/calendar" 
+                className="text-lg font-medium"
+                onClick={closeMobileMenu}
+              >
+                Calendar
+              </Link>
+              
+              <Link 
+                to="/trash" 
+                className="text-lg font-medium"
+                onClick={closeMobileMenu}
+              >
+                Trash
+              </Link>
+              
+              {pinnedViews.map(view => (
+                <Link 
+                  key={view.id}
+                  to={`/dashboard?view=${view.id}`} 
+                  className="flex items-center gap-2 text-lg font-medium"
+                  onClick={closeMobileMenu}
+                >
+                  <Bookmark className="h-4 w-4" />
+                  {view.name}
+                </Link>
+              ))}
+              
               {userRole === 'admin' && (
                 <Link 
                   to="/admin" 
@@ -219,6 +314,24 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         </div>
       </AnimatedContainer>
       
+      <AlertDialog open={unsyncedCount > 0} onOpenChange={(open) => !open && setUnsyncedCount(0)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsynced changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unsyncedCount === 1 ? '1 change made offline hasn\'t' : `${unsyncedCount} changes made offline haven't`} reached
+              the server yet and will be lost if you sign out now. Reconnect and wait for the sync to keep them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Stay signed in</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmSignOut} className="bg-red-600 hover:bg-red-700">
+              Sign out anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
       {/* Footer */}
       <footer className="py-6 bg-white/80 backdrop-blur-md border-t">
         <div className="full-container">
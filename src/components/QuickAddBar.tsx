@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, Loader2, Zap } from 'lucide-react';
+import { Tag, createTag, getTags } from '@/lib/supabase';
+import { parseQuickAdd } from '@/lib/quick-add';
+import { getInitialStatus } from '@/lib/workflow';
+import { useCreateTask } from '@/hooks/use-tasks';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { PriorityIndicator, TagBadge } from './ui-components';
+
+// One-line task entry above the task list, e.g. "Pay invoice tomorrow 5pm !high #finance"
+const QuickAddBar: React.FC = () => {
+  const [input, setInput] = useState('');
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const createTaskMutation = useCreateTask();
+  const { online } = useSyncStatus();
+  const workflow = useWorkflow();
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags());
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const parsed = useMemo(() => parseQuickAdd(input), [input]);
+  const findTag = (name: string) => tags.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+  const hasTime = parsed.due_date && (parsed.due_date.getHours() !== 0 || parsed.due_date.getMinutes() !== 0);
+
+  const handleCreate = async () => {
+    if (!parsed.title || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      // Tags that don't exist yet are created, which needs the server
+      const newNames = parsed.tagNames.filter(name => !findTag(name));
+      const created: Tag[] = [];
+      if (online) {
+        for (const name of newNames) created.push(await createTag(name));
+        setTags(prevTags => [...prevTags, ...created]);
+      } else if (newNames.length > 0) {
+        toast.warning(`New tags can't be created offline: ${newNames.map(name => `#${name}`).join(', ')}`);
+      }
+
+      await createTaskMutation.mutateAsync({
+        id: crypto.randomUUID(),
+        fields: {
+          title: parsed.title,
+          description: '',
+          status: getInitialStatus(workflow),
+          due_date: parsed.due_date ? parsed.due_date.toISOString() : null,
+          priority: parsed.priority ?? 1,
+          auto_complete: false,
+          assignee_id: null,
+          recurrence: null,
+          parent_id: null,
+          series_id: null,
+        },
+        tags: parsed.tagNames
+          .map(name => findTag(name) || created.find(tag => tag.name.toLowerCase() === name.toLowerCase()))
+          .filter(Boolean),
+      });
+
+      setInput('');
+      toast.success(online ? 'Task created' : 'Task created offline. It will sync when you\'re back online.');
+    } catch (error) {
+      toast.error('Failed to create task: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Zap className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleCreate();
+            }
+            if (e.key === 'Escape') setInput('');
+          }}
+          placeholder="Quick add: Pay invoice tomorrow 5pm !high #finance"
+          title="Supports dates like tomorrow, friday or nov 3, times like 5pm, !high/!medium/!low and #tag"
+          className="pl-8 pr-8"
+          disabled={isSaving}
+          aria-label="Quick add a task"
+        />
+        {isSaving && <Loader2 className="absolute right-2.5 top-2.5 h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      {/* Live preview of what Enter will create */}
+      {input.trim() && (
+        <div className="flex flex-wrap items-center gap-3 px-1 text-sm">
+          {parsed.title ? (
+            <span className="font-medium">{parsed.title}</span>
+          ) : (
+            <span className="text-muted-foreground">Add a title</span>
+          )}
+          {parsed.due_date && (
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <CalendarIcon className="h-3.5 w-3.5" />
+              {format(parsed.due_date, hasTime ? 'EEE, MMM d, p' : 'EEE, MMM d')}
+            </span>
+          )}
+          {parsed.priority !== null && <PriorityIndicator priority={parsed.priority} />}
+          {parsed.tagNames.map(name => {
+            const tag = findTag(name);
+            return (
+              <span key={name} className="flex items-center gap-1">
+                <TagBadge tag={tag || { name, color: 'gray' }} />
+                {!tag && <span className="text-xs text-muted-foreground">new</span>}
+              </span>
+            );
+          })}
+          {parsed.title && <span className="ml-auto text-xs text-muted-foreground">Press Enter to add</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuickAddBar;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { Task, createTaskTemplate, isAdmin } from '@/lib/supabase';
+import { buildTemplateTask } from '@/lib/templates';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+
+interface SaveTemplateDialogProps {
+  task: Task;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SaveTemplateDialog: React.FC<SaveTemplateDialogProps> = ({ task, open, onOpenChange }) => {
+  const [name, setName] = useState(task.title);
+  const [shared, setShared] = useState(false);
+  const [canPublish, setCanPublish] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(task.title);
+    setShared(false);
+    // Only admins can publish templates to the whole organization
+    isAdmin().then(setCanPublish).catch(() => setCanPublish(false));
+  }, [open, task.title]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const template = await createTaskTemplate(name, await buildTemplateTask(task), shared);
+      queryClient.invalidateQueries({ queryKey: ['task-templates'] });
+      onOpenChange(false);
+      toast.success(`Saved template "${template.name}"`);
+    } catch (error) {
+      toast.error('Failed to save template: ' + (error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            Keeps the description, priority, tags and subtasks. Due dates are saved relative to when
+            the task was created, e.g. {'{{date+7}}'} for a week later.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="e.g. Release checklist"
+            />
+          </div>
+          {canPublish && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-shared" className="font-normal">Publish to the whole organization</Label>
+              <Switch id="template-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveTemplateDialog;
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bookmark, Check, Link as LinkIcon, Pin, PinOff, Save, Share2, Trash2, X } from 'lucide-react';
+import {
+  SavedView,
+  SavedViewQuery,
+  getSavedViews,
+  getPinnedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  setViewPinned
+} from '@/lib/supabase';
+import { isSameViewQuery } from '@/lib/views';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+interface SavedViewsMenuProps {
+  activeViewId: string | null;
+  currentQuery: SavedViewQuery;
+  currentUserId: string | null;
+  onApply: (view: SavedView | null) => void;
+}
+
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  activeViewId,
+  currentQuery,
+  currentUserId,
+  onApply,
+}) => {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: views = [] } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: getSavedViews,
+  });
+
+  const { data: pinnedViews = [] } = useQuery({
+    queryKey: ['pinned-views'],
+    queryFn: getPinnedViews,
+  });
+
+  const activeView = views.find(view => view.id === activeViewId) || null;
+  const isOwnActiveView = activeView?.user_id === currentUserId;
+  const isModified = !!activeView && !isSameViewQuery(activeView.query, currentQuery);
+  const isPinned = pinnedViews.some(view => view.id === activeViewId);
+  const myViews = views.filter(view => view.user_id === currentUserId);
+  const sharedViews = views.filter(view => view.user_id !== currentUserId);
+
+  const refreshViews = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+    queryClient.invalidateQueries({ queryKey: ['pinned-views'] });
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    try {
+      const view = await createSavedView(name, currentQuery, shared);
+      refreshViews();
+      onApply(view);
+      setShowSaveDialog(false);
+      toast.success(`Saved view "${view.name}"`);
+    } catch (error) {
+      toast.error('Failed to save view: ' + (error as Error).message);
+    }
+  };
+
+  const handleUpdate = async (updates: Partial<Pick<SavedView, 'query' | 'shared'>>, message: string) => {
+    if (!activeView) return;
+
+    try {
+      await updateSavedView(activeView.id, updates);
+      refreshViews();
+      toast.success(message);
+    } catch (error) {
+      toast.error('Failed to update view: ' + (error as Error).message);
+    }
+  };
+
+  const handleTogglePin = async () => {
+    if (!activeView) return;
+
+    try {
+      await setViewPinned(activeView.id, !isPinned);
+      refreshViews();
+      toast.success(isPinned ? 'View unpinned' : 'View pinned to the navigation');
+    } catch (error) {
+      toast.error('Failed to update pinned views');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView) return;
+
+    try {
+      await deleteSavedView(activeView.id);
+      refreshViews();
+      onApply(null);
+      toast.success('View deleted');
+    } catch (error) {
+      toast.error('Failed to delete view');
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    toast.success('Link copied to clipboard');
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onClick={() => onApply(view)}>
+      <Check className={`mr-2 h-4 w-4 ${view.id === activeViewId ? 'opacity-100' : 'opacity-0'}`} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.user_id !== currentUserId && view.owner?.email && (
+        <span className="ml-2 text-xs text-muted-foreground truncate">{view.owner.email}</span>
+      )}
+    </DropdownMenuItem>
+  );
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[12rem]">
+            <Bookmark className="h-4 w-4 mr-1 shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : 'Views'}</span>
+            {isModified && <span className="ml-1 text-muted-foreground">*</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {myViews.map(renderViewItem)}
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared with me</DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+          {views.length > 0 && <DropdownMenuSeparator />}
+
+          <DropdownMenuItem onClick={() => {
+            setName('');
+            setShared(false);
+            setShowSaveDialog(true);
+          }}>
+            <Save className="mr-2 h-4 w-4" />
+            Save as new view...
+          </DropdownMenuItem>
+
+          {activeView && (
+            <>
+              {isOwnActiveView && isModified && (
+                <DropdownMenuItem onClick={() => handleUpdate({ query: currentQuery }, 'View updated')}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Update "{activeView.name}"
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={handleTogglePin}>
+                {isPinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                {isPinned ? 'Unpin from navigation' : 'Pin to navigation'}
+              </DropdownMenuItem>
+              {isOwnActiveView && (
+                <DropdownMenuItem onClick={() => handleUpdate(
+                  { shared: !activeView.shared },
+                  activeView.shared ? 'View is now private' : 'View shared with everyone'
+                )}>
+                  <Share2 className="mr-2 h-4 w-4" />
+                  {activeView.shared ? 'Stop sharing' : 'Share with everyone'}
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onClick={copyLink}>
+                <LinkIcon className="mr-2 h-4 w-4" />
+                Copy link
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => onApply(null)}>
+                <X className="mr-2 h-4 w-4" />
+                Close view
+              </DropdownMenuItem>
+              {isOwnActiveView && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={handleDelete} className="text-red-600 focus:text-red-600">
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete view
+                  </DropdownMenuItem>
+                </>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Save the current search, filters and sort order so you can come back to them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="e.g. Due this week"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="view-shared" className="font-normal">Share with everyone</Label>
+              <Switch id="view-shared" checked={shared} onCheckedChange={setShared} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              Save view
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Cloud, CloudOff, CloudUpload, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from '@/components/ui/tooltip';
+import { syncPendingMutations } from '@/lib/offline';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { cn } from '@/lib/utils';
+
+const SyncStatusIndicator: React.FC<{ className?: string }> = ({ className }) => {
+  const { online, pending, syncing, lastSyncedAt } = useSyncStatus();
+  const changes = `${pending} ${pending === 1 ? 'change' : 'changes'}`;
+
+  let icon = <Cloud className="h-4 w-4" />;
+  let label = 'Online';
+  let description = lastSyncedAt
+    ? `All changes synced ${formatDistanceToNow(new Date(lastSyncedAt), { addSuffix: true })}`
+    : 'All changes saved';
+
+  if (!online) {
+    icon = <CloudOff className="h-4 w-4" />;
+    label = pending > 0 ? `Offline · ${pending}` : 'Offline';
+    description = pending > 0
+      ? `${changes} will sync when you're back online`
+      : "You're offline. Changes are saved on this device and synced later.";
+  } else if (syncing) {
+    icon = <Loader2 className="h-4 w-4 animate-spin" />;
+    label = 'Syncing';
+    description = `Syncing ${changes}…`;
+  } else if (pending > 0) {
+    icon = <CloudUpload className="h-4 w-4" />;
+    label = `${pending} unsynced`;
+    description = `${changes} waiting to sync. Click to retry.`;
+  }
+
+  // Clicking retries the queue by hand; it does nothing while offline or when nothing is waiting
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-8 gap-1.5 px-2 text-xs font-medium',
+            online ? 'text-muted-foreground' : 'text-amber-600 hover:text-amber-600',
+            className
+          )}
+          onClick={() => syncPendingMutations()}
+          aria-label={description}
+        >
+          {icon}
+          <span>{label}</span>
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{description}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default SyncStatusIndicator;
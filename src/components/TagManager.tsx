@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Tag, getTags, updateTag, deleteTag } from '@/lib/supabase';
+import { TAG_COLORS, TagColor } from '@/lib/constants';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { TagBadge } from './ui-components';
+
+const TagManager = () => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags());
+      } catch (error) {
+        toast.error('Failed to load tags');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const handleUpdate = async (tag: Tag, updates: Partial<Pick<Tag, 'name' | 'color'>>) => {
+    if (updates.name !== undefined && (!updates.name.trim() || updates.name.trim() === tag.name)) {
+      return;
+    }
+
+    try {
+      const updatedTag = await updateTag(tag.id, updates);
+      setTags(prevTags => prevTags.map(t => t.id === tag.id ? updatedTag : t));
+      toast.success('Tag updated');
+    } catch (error) {
+      toast.error('Failed to update tag: ' + (error as Error).message);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!tagToDelete) return;
+
+    try {
+      await deleteTag(tagToDelete.id);
+      setTags(prevTags => prevTags.filter(t => t.id !== tagToDelete.id));
+      toast.success('Tag deleted');
+    } catch (error) {
+      toast.error('Failed to delete tag');
+    } finally {
+      setTagToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tags</CardTitle>
+        <CardDescription>
+          Rename, recolour or remove the tags you use to label tasks
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading tags...</p>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no tags yet. Add them from the task form.
+          </p>
+        ) : (
+          tags.map(tag => (
+            <div key={tag.id} className="flex items-center gap-3">
+              <TagBadge tag={tag} />
+              <Input
+                defaultValue={tag.name}
+                className="h-8 flex-1"
+                onBlur={(e) => handleUpdate(tag, { name: e.target.value })}
+              />
+              <Select
+                value={tag.color}
+                onValueChange={(value) => handleUpdate(tag, { color: value as TagColor })}
+              >
+                <SelectTrigger className="h-8 w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2 capitalize">
+                        <span className={cn("h-3 w-3 rounded-full border", TAG_COLORS[color])} />
+                        {color}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-red-600"
+                onClick={() => setTagToDelete(tag)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!tagToDelete} onOpenChange={(open) => !open && setTagToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{tagToDelete?.name}"? It will be removed from every task that uses it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TagManager;
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { Check, Plus, Tag as TagIcon } from 'lucide-react';
+import { Tag, getTags, createTag } from '@/lib/supabase';
+import { TAG_COLORS, TagColor } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { TagBadge } from './ui-components';
+
+const COLOR_NAMES = Object.keys(TAG_COLORS) as TagColor[];
+
+interface TagPickerProps {
+  value: Tag[];
+  onChange: (tags: Tag[]) => void;
+}
+
+const TagPicker: React.FC<TagPickerProps> = ({ value, onChange }) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags());
+      } catch (error) {
+        console.error('Error loading tags:', error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const selectedIds = new Set(value.map(tag => tag.id));
+  const trimmedSearch = search.trim();
+  const exactMatch = tags.find(tag => tag.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const toggleTag = (tag: Tag) => {
+    onChange(selectedIds.has(tag.id)
+      ? value.filter(t => t.id !== tag.id)
+      : [...value, tag]
+    );
+  };
+
+  const handleCreate = async () => {
+    if (!trimmedSearch || isCreating) return;
+
+    setIsCreating(true);
+    try {
+      // Cycle through the palette so new tags are easy to tell apart
+      const tag = await createTag(trimmedSearch, COLOR_NAMES[(tags.length + 1) % COLOR_NAMES.length]);
+      setTags(prevTags => [...prevTags, tag].sort((a, b) => a.name.localeCompare(b.name)));
+      onChange([...value, tag]);
+      setSearch('');
+    } catch (error) {
+      toast.error('Failed to create tag: ' + (error as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full justify-start text-left font-normal text-muted-foreground"
+          >
+            <TagIcon className="mr-2 h-4 w-4" />
+            {value.length > 0 ? `${value.length} tag${value.length === 1 ? '' : 's'} selected` : 'Add tags'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create tag..."
+              value={search}
+              onValueChange={setSearch}
+              onKeyDown={(e) => {
+                // Enter on an unknown name creates it instead of picking the highlighted tag
+                if (e.key === 'Enter' && trimmedSearch && !exactMatch) {
+                  e.preventDefault();
+                  handleCreate();
+                }
+              }}
+            />
+            <CommandList>
+              <CommandEmpty>No tags found.</CommandEmpty>
+              {tags.length > 0 && (
+                <CommandGroup>
+                  {tags.map(tag => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => toggleTag(tag)}>
+                      <Check className={cn("mr-2 h-4 w-4", selectedIds.has(tag.id) ? "opacity-100" : "opacity-0")} />
+                      <TagBadge tag={tag} />
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {trimmedSearch && !exactMatch && (
+                <CommandGroup forceMount>
+                  <CommandItem value={`create-${trimmedSearch}`} onSelect={handleCreate} forceMount>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "{trimmedSearch}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map(tag => (
+            <TagBadge key={tag.id} tag={tag} onRemove={() => toggleTag(tag)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
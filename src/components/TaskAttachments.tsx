@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Download, FileText, Loader2, Paperclip, Trash2 } from 'lucide-react';
+import {
+  TaskAttachment,
+  getTaskAttachments,
+  uploadTaskAttachment,
+  deleteTaskAttachment,
+  getAttachmentUrl,
+  validateAttachment,
+  getCurrentUser,
+  isAdmin
+} from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import FileDropzone from './FileDropzone';
+
+interface TaskAttachmentsProps {
+  taskId: string;
+  onCountChange?: (count: number) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const isImage = (attachment: TaskAttachment) => attachment.mime_type.startsWith('image/');
+const isPdf = (attachment: TaskAttachment) => attachment.mime_type === 'application/pdf';
+
+const TaskAttachments: React.FC<TaskAttachmentsProps> = ({ taskId, onCountChange }) => {
+  const [attachments, setAttachments] = useState<TaskAttachment[]>([]);
+  const [previewUrls, setPreviewUrls] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [previewing, setPreviewing] = useState<TaskAttachment | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isUserAdmin, setIsUserAdmin] = useState(false);
+
+  useEffect(() => {
+    const fetchAttachments = async () => {
+      setIsLoading(true);
+      try {
+        const [{ data: { user } }, adminStatus, taskAttachments] = await Promise.all([
+          getCurrentUser(),
+          isAdmin(),
+          getTaskAttachments(taskId),
+        ]);
+        setCurrentUserId(user?.id || null);
+        setIsUserAdmin(adminStatus);
+        setAttachments(taskAttachments);
+      } catch (error) {
+        toast.error('Failed to load attachments');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchAttachments();
+  }, [taskId]);
+
+  // Images and PDFs get a signed URL up front so they can be previewed
+  useEffect(() => {
+    const loadPreviews = async () => {
+      const previewable = attachments.filter(a => isImage(a) || isPdf(a));
+      const urls = await Promise.all(previewable.map(a => getAttachmentUrl(a).catch(() => null)));
+
+      const next: Record<string, string> = {};
+      previewable.forEach((a, i) => {
+        if (urls[i]) next[a.id] = urls[i];
+      });
+      setPreviewUrls(next);
+    };
+
+    loadPreviews();
+  }, [attachments]);
+
+  const updateAttachments = (updated: TaskAttachment[]) => {
+    setAttachments(updated);
+    onCountChange?.(updated.length);
+  };
+
+  const handleUpload = async (files: File[]) => {
+    const valid = files.filter(file => {
+      const error = validateAttachment(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+    if (valid.length === 0) return;
+
+    setIsUploading(true);
+    const uploaded: TaskAttachment[] = [];
+    for (const file of valid) {
+      try {
+        uploaded.push(await uploadTaskAttachment(taskId, file));
+      } catch (error) {
+        toast.error(`Failed to upload ${file.name}: ${(error as Error).message}`);
+      }
+    }
+    setIsUploading(false);
+
+    if (uploaded.length > 0) {
+      updateAttachments([...attachments, ...uploaded]);
+      toast.success(`${uploaded.length} file${uploaded.length === 1 ? '' : 's'} attached`);
+    }
+  };
+
+  const handleDownload = async (attachment: TaskAttachment) => {
+    try {
+      window.open(await getAttachmentUrl(attachment, true), '_blank');
+    } catch (error) {
+      toast.error('Failed to download file');
+    }
+  };
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    try {
+      await deleteTaskAttachment(attachment);
+      updateAttachments(attachments.filter(a => a.id !== attachment.id));
+      toast.success('Attachment deleted');
+    } catch (error) {
+      toast.error('Failed to delete attachment');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 text-sm font-medium">
+        <Paperclip className="h-4 w-4" />
+        Attachments {attachments.length > 0 && `(${attachments.length})`}
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : attachments.length > 0 && (
+        <div className="space-y-2">
+          {attachments.map(attachment => (
+            <div key={attachment.id} className="flex items-center gap-3 rounded-lg border p-2">
+              <button
+                type="button"
+                className="flex h-10 w-10 shrink-0 items-center justify-center overflow-hidden rounded bg-gray-100"
+                onClick={() => (isImage(attachment) || isPdf(attachment)) && setPreviewing(attachment)}
+              >
+                {isImage(attachment) && previewUrls[attachment.id] ? (
+                  <img src={previewUrls[attachment.id]} alt={attachment.file_name} className="h-full w-full object-cover" />
+                ) : (
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                )}
+              </button>
+              <div className="flex-1 min-w-0">
+                <p className="truncate text-sm font-medium">{attachment.file_name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(attachment.size)} · {format(new Date(attachment.created_at), 'PP')}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDownload(attachment)}>
+                <Download className="h-4 w-4" />
+              </Button>
+              {(attachment.user_id === currentUserId || isUserAdmin) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  onClick={() => handleDelete(attachment)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <FileDropzone onFiles={handleUpload} disabled={isUploading} />
+
+      <Dialog open={!!previewing} onOpenChange={(open) => !open && setPreviewing(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="truncate">{previewing?.file_name}</DialogTitle>
+          </DialogHeader>
+          {previewing && previewUrls[previewing.id] && (
+            isImage(previewing) ? (
+              <img
+                src={previewUrls[previewing.id]}
+                alt={previewing.file_name}
+                className="max-h-[70vh] w-full object-contain"
+              />
+            ) : (
+              <iframe
+                src={previewUrls[previewing.id]}
+                title={previewing.file_name}
+                className="h-[70vh] w-full rounded border"
+              />
+            )
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskAttachments;
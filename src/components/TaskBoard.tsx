@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Task, TaskStatus } from '@/lib/supabase';
+import { canTransition } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { StatusBadge } from './ui-components';
+import TaskItem from './TaskItem';
+
+interface TaskBoardProps {
+  tasks: Task[];
+  onStatusChange: (id: string, status: TaskStatus) => void;
+  onDelete: (id: string) => void;
+  onEdit: (task: Task) => void;
+  onAddSubtask?: (parent: Task) => void;
+  onOpenDetails?: (task: Task) => void;
+  subtaskMap?: Record<string, Task[]>;
+  userEmails?: Record<string, string>;
+  isAdmin?: boolean;
+  selectedIds?: Set<string>;
+  onSelect?: (task: Task, shiftKey: boolean) => void;
+  highlightedIds?: Set<string>;
+  // More pages of tasks are still to load, so the column counts only cover the loaded ones
+  hasMore?: boolean;
+}
+
+const TaskBoard: React.FC<TaskBoardProps> = ({
+  tasks,
+  onStatusChange,
+  onDelete,
+  onEdit,
+  onAddSubtask,
+  onOpenDetails,
+  subtaskMap,
+  userEmails = {},
+  isAdmin = false,
+  selectedIds,
+  onSelect,
+  highlightedIds,
+  hasMore = false,
+}) => {
+  const [dragOverStatus, setDragOverStatus] = useState<TaskStatus | null>(null);
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  // One column per workflow status, in the order the admin set
+  const workflow = useWorkflow();
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: TaskStatus) => {
+    e.preventDefault();
+    setDragOverStatus(null);
+    setDraggedTask(null);
+
+    const taskId = e.dataTransfer.getData('text/plain');
+    const task = tasks.find(t => t.id === taskId);
+
+    // Dropping a card back on its own column is a no-op
+    if (task && task.status !== status) {
+      onStatusChange(task.id, status);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-flow-col md:auto-cols-[minmax(16rem,1fr)] gap-4 md:overflow-x-auto">
+      {workflow.statuses.map(({ key: status }) => {
+        const columnTasks = tasks.filter(task => task.status === status);
+        // Columns the dragged card isn't allowed to move to are dimmed
+        const isClosed = draggedTask && !canTransition(workflow, draggedTask.status, status);
+
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOverStatus(status);
+            }}
+            onDragLeave={() => setDragOverStatus(null)}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`flex flex-col gap-3 rounded-xl border bg-gray-50/70 p-3 min-h-[300px] transition-all ${
+              dragOverStatus === status && !isClosed ? 'border-primary bg-primary/5' : 'border-gray-200'
+            } ${isClosed ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center justify-between px-1">
+              <StatusBadge status={status} />
+              <span
+                className="text-xs font-medium text-muted-foreground"
+                title={hasMore ? `${columnTasks.length} loaded so far; more load as you scroll` : undefined}
+              >
+                {columnTasks.length}{hasMore && '+'}
+              </span>
+            </div>
+
+            {columnTasks.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Drop tasks here
+              </p>
+            ) : (
+              columnTasks.map(task => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', task.id);
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedTask(task);
+                  }}
+                  onDragEnd={() => setDraggedTask(null)}
+                  className="cursor-grab active:cursor-grabbing"
+                >
+                  <TaskItem
+                    task={task}
+                    onStatusChange={onStatusChange}
+                    onDelete={onDelete}
+                    onEdit={onEdit}
+                    onAddSubtask={onAddSubtask}
+                    onOpenDetails={onOpenDetails}
+                    subtaskMap={subtaskMap}
+                    userEmails={userEmails}
+                    userEmail={userEmails[task.user_id]}
+                    isAdmin={isAdmin}
+                    selectedIds={selectedIds}
+                    onSelect={onSelect}
+                    highlightedIds={highlightedIds}
+                  />
+                </div>
+              ))
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TaskBoard;
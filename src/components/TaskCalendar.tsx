@@ -0,0 +1,336 @@
+import React, { useState, useEffect } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import {
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  addMonths,
+  addWeeks
+} from 'date-fns';
+import { DayProps, Row, RowProps } from 'react-day-picker';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { Task, getTasks, toTask } from '@/lib/supabase';
+import { taskKeys, useUpdateTask } from '@/hooks/use-tasks';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { getOpenStatusKeys, isDoneStatus } from '@/lib/workflow';
+import { Calendar } from '@/components/ui/calendar';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import TaskForm from './TaskForm';
+
+type CalendarMode = 'month' | 'week';
+
+const priorityColors: Record<number, string> = {
+  1: 'bg-blue-100 text-blue-800 border-blue-200',
+  2: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  3: 'bg-red-100 text-red-800 border-red-200',
+};
+
+// What the day cells and week rows need from the calendar. They are handed to react-day-picker
+// as component types, so they live out here and read this instead of closing over the render.
+type CalendarContextValue = {
+  mode: CalendarMode;
+  weekStart: Date;
+  getTasksForDay: (date: Date) => Task[];
+  isDone: (task: Task) => boolean;
+  onCreate: (date: Date) => void;
+  onEdit: (task: Task) => void;
+  onReschedule: (taskId: string, date: Date) => void;
+};
+
+const CalendarContext = React.createContext<CalendarContextValue | null>(null);
+
+const useCalendarContext = () => React.useContext(CalendarContext);
+
+interface TaskChipProps {
+  task: Task;
+  done: boolean;
+  onEdit: (task: Task) => void;
+}
+
+const TaskChip: React.FC<TaskChipProps> = ({ task, done, onEdit }) => (
+  <div
+    draggable
+    onDragStart={(e) => {
+      e.dataTransfer.setData('text/plain', task.id);
+      e.dataTransfer.effectAllowed = 'move';
+    }}
+    onClick={(e) => {
+      e.stopPropagation();
+      onEdit(task);
+    }}
+    title={task.title}
+    className={cn(
+      "truncate rounded border px-1.5 py-0.5 text-xs font-medium cursor-grab active:cursor-grabbing",
+      priorityColors[task.priority] || priorityColors[1],
+      done && "line-through opacity-60"
+    )}
+  >
+    {task.title}
+  </div>
+);
+
+const DayCell = ({ date, displayMonth }: DayProps) => {
+  const { mode, getTasksForDay, isDone, onCreate, onEdit, onReschedule } = useCalendarContext();
+
+  // The drop highlight is toggled on the element directly, so dragging across the grid doesn't
+  // re-render every cell
+  return (
+    <div
+      onClick={() => onCreate(date)}
+      onDragOver={(e) => {
+        e.preventDefault();
+        e.currentTarget.classList.add('bg-primary/10');
+      }}
+      onDragLeave={(e) => e.currentTarget.classList.remove('bg-primary/10')}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.currentTarget.classList.remove('bg-primary/10');
+        onReschedule(e.dataTransfer.getData('text/plain'), date);
+      }}
+      className={cn(
+        "flex h-full flex-col gap-1 p-1.5 cursor-pointer transition-colors hover:bg-accent/40",
+        mode === 'month' ? "min-h-[7rem]" : "min-h-[20rem]",
+        !isSameMonth(date, displayMonth) && mode === 'month' && "bg-gray-50/70 text-muted-foreground"
+      )}
+    >
+      <span className={cn(
+        "inline-flex h-6 w-6 items-center justify-center rounded-full text-xs",
+        isSameDay(date, new Date()) && "bg-primary text-primary-foreground"
+      )}>
+        {format(date, 'd')}
+      </span>
+      {getTasksForDay(date).map(task => (
+        <TaskChip key={task.id} task={task} done={isDone(task)} onEdit={onEdit} />
+      ))}
+    </div>
+  );
+};
+
+const WeekRow = (props: RowProps) => {
+  const { mode, weekStart } = useCalendarContext();
+
+  // In week mode only the row containing the focused week is shown
+  if (mode === 'week' && !props.dates.some(date => isSameDay(date, weekStart))) {
+    return null;
+  }
+  return <Row {...props} />;
+};
+
+const calendarComponents = { Day: DayCell, Row: WeekRow };
+
+const TaskCalendar: React.FC = () => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [focusedDate, setFocusedDate] = useState(new Date());
+  const [showTaskForm, setShowTaskForm] = useState(false);
+  const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [newTaskDate, setNewTaskDate] = useState<Date | null>(null);
+
+  const updateTaskMutation = useUpdateTask();
+  const workflow = useWorkflow();
+
+  // The month grid includes the days of the neighbouring months that fill its first and last weeks
+  const rangeStart = startOfWeek(mode === 'month' ? startOfMonth(focusedDate) : focusedDate);
+  const rangeEnd = endOfWeek(mode === 'month' ? endOfMonth(focusedDate) : focusedDate);
+  const from = rangeStart.toISOString();
+  const to = rangeEnd.toISOString();
+  const openStatuses = getOpenStatusKeys(workflow);
+
+  // Only the days on screen are loaded, plus open tasks without a date for the unscheduled list.
+  // Shares the tasks cache with the list, so edits made in either show up in both.
+  const { data: tasks = [], isLoading, error: fetchError } = useQuery({
+    queryKey: taskKeys.calendar(from, to, openStatuses),
+    queryFn: async () => {
+      const [scheduled, unscheduled] = await Promise.all([
+        getTasks({ filters: { dueFrom: from, dueTo: to } }),
+        getTasks({ filters: { noDueDate: true, status: openStatuses } }),
+      ]);
+      if (scheduled.error) throw scheduled.error;
+      if (unscheduled.error) throw unscheduled.error;
+      return [...scheduled.data, ...unscheduled.data].map(toTask);
+    },
+    // Keeps the current tasks on screen while the next month or week loads
+    placeholderData: keepPreviousData,
+  });
+
+  useEffect(() => {
+    if (fetchError) {
+      toast.error('Failed to fetch tasks: ' + fetchError.message);
+    }
+  }, [fetchError]);
+
+  const unscheduledTasks = tasks.filter(task => !task.due_date && !isDoneStatus(workflow, task.status));
+
+  const getTasksForDay = (date: Date) =>
+    tasks.filter(task => task.due_date && isSameDay(new Date(task.due_date), date));
+
+  const handleReschedule = async (taskId: string, date: Date) => {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    // Keep the original time of day when moving a task to another date
+    const dueDate = new Date(date);
+    if (task.due_date) {
+      const previous = new Date(task.due_date);
+      if (isSameDay(previous, date)) return;
+      dueDate.setHours(previous.getHours(), previous.getMinutes(), 0, 0);
+    }
+
+    try {
+      // The chip moves right away and jumps back if saving fails
+      await updateTaskMutation.mutateAsync({ task, changes: { due_date: dueDate.toISOString() } });
+      toast.success(`Task moved to ${format(dueDate, 'PPP')}`);
+    } catch (error) {
+      toast.error('Failed to reschedule task: ' + (error as Error).message);
+    }
+  };
+
+  const openCreateForm = (date: Date) => {
+    setEditingTask(null);
+    setNewTaskDate(date);
+    setShowTaskForm(true);
+  };
+
+  const openEditForm = (task: Task) => {
+    setEditingTask(task);
+    setNewTaskDate(null);
+    setShowTaskForm(true);
+  };
+
+  const closeTaskForm = () => {
+    setShowTaskForm(false);
+    setEditingTask(null);
+    setNewTaskDate(null);
+  };
+
+  // TaskForm saves through the task mutations, which already update the calendar
+  const handleTaskCreated = () => {
+    closeTaskForm();
+  };
+
+  const handleTaskUpdated = () => {
+    closeTaskForm();
+  };
+
+  const handlePrevious = () => {
+    setFocusedDate(date => mode === 'month' ? addMonths(date, -1) : addWeeks(date, -1));
+  };
+
+  const handleNext = () => {
+    setFocusedDate(date => mode === 'month' ? addMonths(date, 1) : addWeeks(date, 1));
+  };
+
+  const weekStart = startOfWeek(focusedDate);
+  const isDone = (task: Task) => isDoneStatus(workflow, task.status);
+
+  const calendarContext: CalendarContextValue = {
+    mode,
+    weekStart,
+    getTasksForDay,
+    isDone,
+    onCreate: openCreateForm,
+    onEdit: openEditForm,
+    onReschedule: handleReschedule,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={handlePrevious}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={handleNext}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setFocusedDate(new Date())}>
+            Today
+          </Button>
+          <h2 className="ml-2 text-lg font-medium">
+            {mode === 'month'
+              ? format(focusedDate, 'MMMM yyyy')
+              : `${format(weekStart, 'MMM d')} – ${format(endOfWeek(focusedDate), 'MMM d, yyyy')}`
+            }
+          </h2>
+        </div>
+        <ToggleGroup
+          type="single"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CalendarMode)}
+        >
+          <ToggleGroupItem value="month" size="sm">Month</ToggleGroupItem>
+          <ToggleGroupItem value="week" size="sm">Week</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <Card className={cn("overflow-hidden", isLoading && "animate-pulse")}>
+        <CalendarContext.Provider value={calendarContext}>
+          <Calendar
+            month={mode === 'month' ? focusedDate : weekStart}
+            disableNavigation
+            className="p-0"
+            classNames={{
+              months: "w-full",
+              month: "w-full",
+              caption: "hidden",
+              table: "w-full border-collapse",
+              head_row: "grid grid-cols-7 border-b",
+              head_cell: "py-2 text-center text-xs font-normal text-muted-foreground",
+              row: "grid grid-cols-7 border-b last:border-b-0",
+              cell: "border-r last:border-r-0 p-0 text-left align-top",
+            }}
+            components={calendarComponents}
+          />
+        </CalendarContext.Provider>
+      </Card>
+
+      {unscheduledTasks.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-muted-foreground">
+            No due date ({unscheduledTasks.length}) – drag onto a day to schedule
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {unscheduledTasks.map(task => (
+              <div key={task.id} className="max-w-[12rem]">
+                <TaskChip task={task} done={isDone(task)} onEdit={openEditForm} />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showTaskForm && (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+          <div className="w-full max-w-md animate-scale-in" onClick={(e) => e.stopPropagation()}>
+            <Card className="shadow-lg border-0">
+              <div className="flex justify-between items-center p-4 border-b">
+                <h2 className="text-lg font-medium">
+                  {editingTask ? 'Edit Task' : 'Create New Task'}
+                </h2>
+                <Button variant="ghost" size="icon" onClick={closeTaskForm}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <TaskForm
+                task={editingTask}
+                defaultDueDate={newTaskDate}
+                onTaskCreated={handleTaskCreated}
+                onTaskUpdated={handleTaskUpdated}
+                onCancel={closeTaskForm}
+              />
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaskCalendar;
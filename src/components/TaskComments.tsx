@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { Loader2, MessageSquare, Pencil, Trash2 } from 'lucide-react';
+import {
+  TaskComment,
+  getTaskComments,
+  createTaskComment,
+  updateTaskComment,
+  deleteTaskComment,
+  getCurrentUser,
+  isAdmin
+} from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { toast } from 'sonner';
+
+interface TaskCommentsProps {
+  taskId: string;
+  onCountChange?: (count: number) => void;
+}
+
+const TaskComments: React.FC<TaskCommentsProps> = ({ taskId, onCountChange }) => {
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newComment, setNewComment] = useState('');
+  const [isPosting, setIsPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isUserAdmin, setIsUserAdmin] = useState(false);
+
+  useEffect(() => {
+    const fetchComments = async () => {
+      setIsLoading(true);
+      try {
+        const [{ data: { user } }, adminStatus, taskComments] = await Promise.all([
+          getCurrentUser(),
+          isAdmin(),
+          getTaskComments(taskId),
+        ]);
+        setCurrentUserId(user?.id || null);
+        setIsUserAdmin(adminStatus);
+        setComments(taskComments);
+      } catch (error) {
+        toast.error('Failed to load comments');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchComments();
+  }, [taskId]);
+
+  const updateComments = (updated: TaskComment[]) => {
+    setComments(updated);
+    onCountChange?.(updated.length);
+  };
+
+  const handlePost = async () => {
+    if (!newComment.trim()) return;
+
+    setIsPosting(true);
+    try {
+      const comment = await createTaskComment(taskId, newComment);
+      updateComments([...comments, comment]);
+      setNewComment('');
+    } catch (error) {
+      toast.error('Failed to post comment: ' + (error as Error).message);
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    if (!editingBody.trim()) return;
+
+    try {
+      const updated = await updateTaskComment(id, editingBody);
+      setComments(prevComments => prevComments.map(c => c.id === id ? updated : c));
+      setEditingId(null);
+    } catch (error) {
+      toast.error('Failed to update comment: ' + (error as Error).message);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTaskComment(id);
+      updateComments(comments.filter(c => c.id !== id));
+      toast.success('Comment deleted');
+    } catch (error) {
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 text-sm font-medium">
+        <MessageSquare className="h-4 w-4" />
+        Comments {comments.length > 0 && `(${comments.length})`}
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No comments yet. Start the discussion below.</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map(comment => {
+            const email = comment.author?.email || 'Unknown user';
+            // Authors edit their own comments; admins can moderate everyone's
+            const canModify = comment.user_id === currentUserId || isUserAdmin;
+
+            return (
+              <div key={comment.id} className="flex gap-3">
+                <Avatar className="h-7 w-7">
+                  <AvatarFallback className="text-xs">{email.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs">
+                      <span className="font-medium">{email}</span>
+                      <span className="text-muted-foreground"> · {format(new Date(comment.created_at), 'PPp')}</span>
+                      {comment.updated_at !== comment.created_at && (
+                        <span className="text-muted-foreground"> (edited)</span>
+                      )}
+                    </p>
+                    {canModify && editingId !== comment.id && (
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => {
+                            setEditingId(comment.id);
+                            setEditingBody(comment.body);
+                          }}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-red-600"
+                          onClick={() => handleDelete(comment.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {editingId === comment.id ? (
+                    <div className="space-y-2">
+                      <Textarea
+                        value={editingBody}
+                        onChange={(e) => setEditingBody(e.target.value)}
+                        rows={2}
+                      />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                        <Button size="sm" onClick={() => handleSaveEdit(comment.id)}>
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Write a comment..."
+          value={newComment}
+          onChange={(e) => setNewComment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+              handlePost();
+            }
+          }}
+          rows={3}
+        />
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handlePost} disabled={isPosting || !newComment.trim()}>
+            {isPosting ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskComments;
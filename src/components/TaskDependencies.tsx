@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Lock, Link2, Plus, X } from 'lucide-react';
+import {
+  Task,
+  TaskLink,
+  getTasks,
+  toTask,
+  addTaskDependency,
+  removeTaskDependency
+} from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { isDoneStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { StatusBadge } from './ui-components';
+
+const PICKER_RESULT_LIMIT = 8;
+
+interface TaskPickerProps {
+  label: string;
+  // Tasks that can't be picked: the task itself and the ones already linked
+  excludeIds: Set<string>;
+  onPick: (task: Task) => void;
+}
+
+const TaskPicker: React.FC<TaskPickerProps> = ({ label, excludeIds, onPick }) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<Task[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await getTasks({ filters: { search }, limit: PICKER_RESULT_LIMIT });
+      if (error) {
+        console.error('Error searching tasks:', error);
+        return;
+      }
+      setResults(data.map(toTask));
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [open, search]);
+
+  const candidates = results.filter(task => !excludeIds.has(task.id)).slice(0, PICKER_RESULT_LIMIT);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs">
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        {/* Results come from the server search, so cmdk mustn't filter them again */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search tasks..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No tasks found.</CommandEmpty>
+            {candidates.length > 0 && (
+              <CommandGroup>
+                {candidates.map(task => (
+                  <CommandItem
+                    key={task.id}
+                    value={task.id}
+                    onSelect={() => {
+                      setOpen(false);
+                      setSearch('');
+                      onPick(task);
+                    }}
+                  >
+                    <span className="flex-1 truncate">{task.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface TaskDependenciesProps {
+  task: Task;
+  // Called after a link was added or removed so the task can be reloaded
+  onChange: () => void;
+  readOnly?: boolean;
+}
+
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task, onChange, readOnly = false }) => {
+  const workflow = useWorkflow();
+  const blockedBy = task.blocked_by || [];
+  const blocks = task.blocks || [];
+  const linkedIds = new Set([task.id, ...blockedBy.map(link => link.id), ...blocks.map(link => link.id)]);
+
+  const updateLink = async (save: () => Promise<unknown>, failure: string) => {
+    try {
+      await save();
+      onChange();
+    } catch (error) {
+      toast.error(`${failure}: ${(error as Error).message}`);
+    }
+  };
+
+  const renderLinks = (links: TaskLink[], remove: (link: TaskLink) => void) => (
+    <ul className="space-y-1">
+      {links.map(link => (
+        <li key={link.id} className="flex items-center gap-2">
+          <Link
+            to={`/tasks/${link.id}`}
+            className={cn(
+              "flex-1 truncate hover:underline",
+              (isDoneStatus(workflow, link.status) || link.deleted_at) && "line-through text-muted-foreground"
+            )}
+          >
+            {link.title}
+          </Link>
+          <StatusBadge status={link.status} />
+          {!readOnly && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => remove(link)}
+              aria-label={`Remove link to ${link.title}`}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <Lock className="h-3.5 w-3.5" />
+            Blocked by
+          </span>
+          {!readOnly && (
+            <TaskPicker
+              label="Add"
+              excludeIds={linkedIds}
+              onPick={(blocker) => updateLink(() => addTaskDependency(task.id, blocker.id), 'Failed to add blocker')}
+            />
+          )}
+        </div>
+        {blockedBy.length > 0 ? (
+          renderLinks(blockedBy, (blocker) =>
+            updateLink(() => removeTaskDependency(task.id, blocker.id), 'Failed to remove blocker')
+          )
+        ) : (
+          <p className="text-muted-foreground">Nothing is blocking this task</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <Link2 className="h-3.5 w-3.5" />
+            Blocks
+          </span>
+          {!readOnly && (
+            <TaskPicker
+              label="Add"
+              excludeIds={linkedIds}
+              onPick={(dependent) => updateLink(() => addTaskDependency(dependent.id, task.id), 'Failed to link task')}
+            />
+          )}
+        </div>
+        {blocks.length > 0 ? (
+          renderLinks(blocks, (dependent) =>
+            updateLink(() => removeTaskDependency(dependent.id, task.id), 'Failed to unlink task')
+          )
+        ) : (
+          <p className="text-muted-foreground">No tasks are waiting on this one</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskDependencies;
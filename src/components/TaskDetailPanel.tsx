@@ -0,0 +1,111 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Calendar, ExternalLink, UserCheck, UserIcon } from 'lucide-react';
+import { Task } from '@/lib/supabase';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Separator } from '@/components/ui/separator';
+import { Button } from '@/components/ui/button';
+import { StatusBadge, PriorityIndicator, TagBadge } from './ui-components';
+import TaskComments from './TaskComments';
+import TaskAttachments from './TaskAttachments';
+import TaskHistory from './TaskHistory';
+
+interface TaskDetailPanelProps {
+  task: Task | null;
+  onClose: () => void;
+  userEmails?: Record<string, string>;
+  onCommentCountChange?: (taskId: string, count: number) => void;
+  onAttachmentCountChange?: (taskId: string, count: number) => void;
+}
+
+const TaskDetailPanel: React.FC<TaskDetailPanelProps> = ({
+  task,
+  onClose,
+  userEmails = {},
+  onCommentCountChange,
+  onAttachmentCountChange,
+}) => {
+  return (
+    <Sheet open={!!task} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        {task && (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="text-left text-balance">{task.title}</SheetTitle>
+              <SheetDescription className="text-left">
+                Created {format(new Date(task.created_at), 'PPP')}
+                {userEmails[task.user_id] && ` by ${userEmails[task.user_id]}`}
+              </SheetDescription>
+              <Button asChild variant="outline" size="sm" className="w-fit">
+                <Link to={`/tasks/${task.id}`}>
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  Open full page
+                </Link>
+              </Button>
+            </SheetHeader>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <StatusBadge status={task.status} />
+              <PriorityIndicator priority={task.priority} />
+              {task.tags?.map(tag => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+            </div>
+
+            <div className="space-y-2 text-sm">
+              {task.due_date && (
+                <p className="flex items-center gap-2">
+                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                  Due {format(new Date(task.due_date), 'PPP')}
+                </p>
+              )}
+              <p className="flex items-center gap-2">
+                <UserIcon className="h-4 w-4 text-muted-foreground" />
+                Owner: {userEmails[task.user_id] || 'Unknown'}
+              </p>
+              {task.assignee_id && (
+                <p className="flex items-center gap-2">
+                  <UserCheck className="h-4 w-4 text-muted-foreground" />
+                  Assignee: {userEmails[task.assignee_id] || 'Unknown'}
+                </p>
+              )}
+            </div>
+
+            {task.description && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                {task.description}
+              </p>
+            )}
+
+            <Separator />
+
+            <TaskAttachments
+              taskId={task.id}
+              onCountChange={(count) => onAttachmentCountChange?.(task.id, count)}
+            />
+
+            <Separator />
+
+            <TaskComments
+              taskId={task.id}
+              onCountChange={(count) => onCommentCountChange?.(task.id, count)}
+            />
+
+            <Separator />
+
+            <TaskHistory taskId={task.id} userEmails={userEmails} />
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default TaskDetailPanel;
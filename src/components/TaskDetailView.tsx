@@ -0,0 +1,697 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import {
+  ArrowLeft,
+  CalendarIcon,
+  CornerLeftUp,
+  LayoutTemplate,
+  Link as LinkIcon,
+  Lock,
+  Pencil,
+  Repeat,
+  RotateCcw,
+  SearchX,
+  Trash2,
+  X
+} from 'lucide-react';
+import {
+  Task,
+  Tag,
+  TaskStatus,
+  UserSummary,
+  getTaskById,
+  taskExists,
+  getSubtasks,
+  restoreTask,
+  setTaskTags,
+  getUserDirectory,
+  toTask
+} from '@/lib/supabase';
+import { describeRecurrence } from '@/lib/recurrence';
+import { isBlockedStatusChange } from '@/lib/dependencies';
+import { getAllowedStatuses, getStatus, isDoneStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { useUpdateTask, useDeleteTask, useRefreshTasks, useTaskCompletion } from '@/hooks/use-tasks';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { StatusBadge, EmptyState, TaskListSkeleton } from './ui-components';
+import TagPicker from './TagPicker';
+import TaskForm from './TaskForm';
+import TaskComments from './TaskComments';
+import TaskAttachments from './TaskAttachments';
+import TaskHistory from './TaskHistory';
+import TaskDependencies from './TaskDependencies';
+import BlockedTaskDialog from './BlockedTaskDialog';
+import SaveTemplateDialog from './SaveTemplateDialog';
+
+// Anything that isn't a uuid can't be a task id, and Postgres would reject it as input
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type LoadState = 'loading' | 'ready' | 'not_found' | 'forbidden' | 'error';
+
+type EditableFields = Partial<Pick<Task, 'title' | 'description' | 'status' | 'priority' | 'due_date' | 'assignee_id'>>;
+
+interface TaskDetailViewProps {
+  taskId: string;
+}
+
+const DetailRow = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="grid grid-cols-[6rem_1fr] items-center gap-2 text-sm">
+    <span className="text-muted-foreground">{label}</span>
+    <div className="min-w-0">{children}</div>
+  </div>
+);
+
+const TaskDetailView: React.FC<TaskDetailViewProps> = ({ taskId }) => {
+  const [task, setTask] = useState<Task | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [parent, setParent] = useState<Task | null>(null);
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [editingTitle, setEditingTitle] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [editingDescription, setEditingDescription] = useState(false);
+  const [descriptionDraft, setDescriptionDraft] = useState('');
+  const [showTaskForm, setShowTaskForm] = useState(false);
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  // A status the user picked while the task still has open blockers, waiting for confirmation
+  const [blockedStatus, setBlockedStatus] = useState<TaskStatus | null>(null);
+  // Bumped after every change so the history timeline reloads
+  const [historyKey, setHistoryKey] = useState(0);
+  // Saving through the task mutations keeps the task lists and calendar in step with this page
+  const updateTaskMutation = useUpdateTask();
+  const deleteTaskMutation = useDeleteTask();
+  const completeTask = useTaskCompletion();
+  const refreshTasks = useRefreshTasks();
+  const workflow = useWorkflow();
+
+  const userEmails = Object.fromEntries(users.map(user => [user.id, user.email]));
+
+  const loadTask = useCallback(async () => {
+    setLoadState('loading');
+
+    if (!UUID_PATTERN.test(taskId)) {
+      setLoadState('not_found');
+      return;
+    }
+
+    try {
+      const { data, error } = await getTaskById(taskId);
+      if (error) throw error;
+
+      // Row level security returns nothing for tasks the user can't see
+      if (!data) {
+        setLoadState(await taskExists(taskId) ? 'forbidden' : 'not_found');
+        return;
+      }
+
+      setTask(toTask(data));
+      setLoadState('ready');
+    } catch (error) {
+      console.error('Error loading task:', error);
+      setLoadState('error');
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadTask();
+  }, [loadTask]);
+
+  // Picks up changes stored outside the tasks row, e.g. dependencies, without the loading state
+  const reloadTask = async () => {
+    const { data, error } = await getTaskById(taskId);
+    if (error) {
+      console.error('Error reloading task:', error);
+      return;
+    }
+    if (data) setTask(toTask(data));
+    refreshTasks();
+  };
+
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        setUsers(await getUserDirectory());
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      }
+    };
+
+    fetchUsers();
+  }, []);
+
+  // Related items: the parent task (if the user can see it) and the open subtasks
+  const parentId = task?.parent_id;
+  useEffect(() => {
+    const fetchRelated = async () => {
+      const [subtaskResult, parentResult] = await Promise.all([
+        getSubtasks(taskId),
+        parentId ? getTaskById(parentId) : Promise.resolve(null),
+      ]);
+
+      if (subtaskResult.error) {
+        console.error('Error fetching subtasks:', subtaskResult.error);
+      }
+      setSubtasks((subtaskResult.data || []).map(toTask));
+      setParent(parentResult?.data ? toTask(parentResult.data) : null);
+    };
+
+    if (loadState === 'ready') {
+      fetchRelated();
+    }
+  }, [taskId, parentId, loadState]);
+
+  const saveChanges = async (updates: EditableFields) => {
+    try {
+      setTask(await updateTaskMutation.mutateAsync({ task, changes: updates }));
+      setHistoryKey(key => key + 1);
+      return true;
+    } catch (error) {
+      toast.error('Failed to update task: ' + (error as Error).message);
+      return false;
+    }
+  };
+
+  const handleStatusChange = async (status: TaskStatus, overrideBlockers = false) => {
+    if (!overrideBlockers && isBlockedStatusChange(task, status, workflow)) {
+      setBlockedStatus(status);
+      return;
+    }
+
+    const previous = task;
+    if (!(await saveChanges({ status }))) return;
+
+    toast.success(`Task marked as ${getStatus(workflow, status).name}`);
+    if (!isDoneStatus(workflow, status)) return;
+
+    try {
+      // Completing a task schedules its next occurrence and can complete its parent, as it does in the list
+      const { nextTask, parent: completedParent } = await completeTask(previous);
+      if (nextTask) {
+        setTask(current => ({ ...current, next_occurrence_id: nextTask.id }));
+        refreshTasks();
+        toast.success(`Next occurrence scheduled for ${format(new Date(nextTask.due_date), 'PPP')}`);
+      }
+      if (completedParent) setParent(completedParent);
+    } catch (error) {
+      toast.error('Failed to update related tasks: ' + (error as Error).message);
+    }
+  };
+
+  const handleTagsChange = async (tags: Tag[]) => {
+    try {
+      await setTaskTags(taskId, tags.map(tag => tag.id));
+      setTask(current => ({ ...current, tags }));
+      refreshTasks();
+    } catch (error) {
+      toast.error('Failed to update tags: ' + (error as Error).message);
+    }
+  };
+
+  const saveTitle = async () => {
+    const title = titleDraft.trim();
+    if (!title) {
+      toast.error('Title is required');
+      return;
+    }
+
+    if (title === task.title || await saveChanges({ title })) {
+      setEditingTitle(false);
+    }
+  };
+
+  const saveDescription = async () => {
+    if (await saveChanges({ description: descriptionDraft.trim() || null })) {
+      setEditingDescription(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deleteTaskMutation.mutateAsync(task);
+
+      setTask(current => ({ ...current, deleted_at: new Date().toISOString() }));
+      setHistoryKey(key => key + 1);
+      toast.success('Task moved to Trash');
+    } catch (error) {
+      toast.error('Failed to delete task: ' + (error as Error).message);
+    }
+  };
+
+  const handleRestore = async () => {
+    try {
+      const { error } = await restoreTask(taskId);
+      if (error) throw error;
+
+      setTask(current => ({ ...current, deleted_at: null }));
+      refreshTasks();
+      setHistoryKey(key => key + 1);
+      toast.success('Task restored');
+    } catch (error) {
+      toast.error('Failed to restore task: ' + (error as Error).message);
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href);
+    toast.success('Link copied to clipboard');
+  };
+
+  const backLink = (
+    <Button asChild variant="outline">
+      <Link to="/dashboard">
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back to tasks
+      </Link>
+    </Button>
+  );
+
+  if (loadState === 'loading') {
+    return <TaskListSkeleton count={3} />;
+  }
+
+  if (loadState === 'not_found') {
+    return (
+      <EmptyState
+        icon={SearchX}
+        title="Task not found"
+        description="This task doesn't exist or has been permanently deleted."
+        action={backLink}
+      />
+    );
+  }
+
+  if (loadState === 'forbidden') {
+    return (
+      <EmptyState
+        icon={Lock}
+        title="You don't have access to this task"
+        description="Only the task's owner, its assignee and admins can open it. Ask the owner to assign it to you."
+        action={backLink}
+      />
+    );
+  }
+
+  if (loadState === 'error' || !task) {
+    return (
+      <EmptyState
+        title="Couldn't load this task"
+        description="Check your connection and try again."
+        action={<Button onClick={loadTask}>Try again</Button>}
+      />
+    );
+  }
+
+  const completedSubtasks = subtasks.filter(subtask => isDoneStatus(workflow, subtask.status)).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <Button asChild variant="ghost" size="sm" className="-ml-2">
+          <Link to="/dashboard">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Tasks
+          </Link>
+        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={copyLink}>
+            <LinkIcon className="h-4 w-4 mr-1" />
+            Copy link
+          </Button>
+          {!task.deleted_at && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setShowTaskForm(true)}>
+                <Pencil className="h-4 w-4 mr-1" />
+                Edit all fields
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setShowSaveTemplate(true)}>
+                <LayoutTemplate className="h-4 w-4 mr-1" />
+                Save as template
+              </Button>
+              <Button variant="outline" size="sm" className="text-red-600 hover:text-red-600" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Move to Trash
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {task.deleted_at && (
+        <div className="flex items-center justify-between gap-4 rounded-md border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+          <span>This task is in the Trash since {format(new Date(task.deleted_at), 'PPP')}.</span>
+          <Button size="sm" variant="outline" onClick={handleRestore}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Restore
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        {editingTitle ? (
+          <Input
+            autoFocus
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={saveTitle}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setEditingTitle(false);
+            }}
+            className="text-2xl font-semibold h-auto py-1"
+            aria-label="Task title"
+          />
+        ) : (
+          <h1
+            className={cn(
+              "text-2xl font-semibold tracking-tight text-balance rounded -mx-1 px-1",
+              !task.deleted_at && "cursor-text hover:bg-muted/60",
+              isDoneStatus(workflow, task.status) && "line-through text-muted-foreground"
+            )}
+            onClick={() => {
+              if (task.deleted_at) return;
+              setTitleDraft(task.title);
+              setEditingTitle(true);
+            }}
+          >
+            {task.title}
+          </h1>
+        )}
+        <p className="text-sm text-muted-foreground">
+          Created {format(new Date(task.created_at), 'PPP')}
+          {userEmails[task.user_id] && ` by ${userEmails[task.user_id]}`}
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_20rem]">
+        <div className="space-y-6 min-w-0">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-base">Description</CardTitle>
+              {!editingDescription && !task.deleted_at && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setDescriptionDraft(task.description || '');
+                    setEditingDescription(true);
+                  }}
+                >
+                  <Pencil className="h-3.5 w-3.5 mr-1" />
+                  Edit
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {editingDescription ? (
+                <div className="space-y-2">
+                  <Textarea
+                    autoFocus
+                    rows={6}
+                    value={descriptionDraft}
+                    onChange={(e) => setDescriptionDraft(e.target.value)}
+                    placeholder="Add more detail to this task"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingDescription(false)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={saveDescription}>
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              ) : task.description ? (
+                <p className="text-sm whitespace-pre-wrap">{task.description}</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">No description</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <TaskAttachments
+                taskId={task.id}
+                onCountChange={(count) => setTask(current => ({ ...current, attachment_count: count }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="pt-6">
+              <TaskComments
+                taskId={task.id}
+                onCountChange={(count) => setTask(current => ({ ...current, comment_count: count }))}
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <DetailRow label="Status">
+                <Select
+                  value={task.status}
+                  onValueChange={(value) => handleStatusChange(value as TaskStatus)}
+                  disabled={!!task.deleted_at}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Only the statuses the workflow lets this task move to */}
+                    {getAllowedStatuses(workflow, task.status).map(status => (
+                      <SelectItem key={status.key} value={status.key}>{status.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </DetailRow>
+
+              <DetailRow label="Priority">
+                <Select
+                  value={String(task.priority)}
+                  onValueChange={(value) => saveChanges({ priority: Number(value) })}
+                  disabled={!!task.deleted_at}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1">Low</SelectItem>
+                    <SelectItem value="2">Medium</SelectItem>
+                    <SelectItem value="3">High</SelectItem>
+                  </SelectContent>
+                </Select>
+              </DetailRow>
+
+              <DetailRow label="Due date">
+                <div className="flex items-center gap-1">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={!!task.deleted_at}
+                        className={cn(
+                          "flex-1 justify-start text-left font-normal",
+                          !task.due_date && "text-muted-foreground"
+                        )}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {task.due_date ? format(new Date(task.due_date), "PPP") : "No due date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={task.due_date ? new Date(task.due_date) : undefined}
+                        onSelect={(date) => date && saveChanges({ due_date: date.toISOString() })}
+                        initialFocus
+                        className="p-3 pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  {task.due_date && !task.deleted_at && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => saveChanges({ due_date: null })}
+                      aria-label="Clear due date"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </DetailRow>
+
+              <DetailRow label="Assignee">
+                <Select
+                  value={task.assignee_id || 'unassigned'}
+                  onValueChange={(value) => saveChanges({ assignee_id: value === 'unassigned' ? null : value })}
+                  disabled={!!task.deleted_at}
+                >
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Unassigned" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unassigned">Unassigned</SelectItem>
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>{user.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </DetailRow>
+
+              <DetailRow label="Tags">
+                {task.deleted_at ? (
+                  <span className="text-muted-foreground">{task.tags?.map(tag => tag.name).join(', ') || 'None'}</span>
+                ) : (
+                  <TagPicker value={task.tags || []} onChange={handleTagsChange} />
+                )}
+              </DetailRow>
+
+              <DetailRow label="Owner">
+                <span className="truncate">{userEmails[task.user_id] || 'Unknown'}</span>
+              </DetailRow>
+
+              {task.recurrence && (
+                <DetailRow label="Repeats">
+                  <span className="inline-flex items-center gap-1">
+                    <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+                    {describeRecurrence(task.recurrence)}
+                  </span>
+                </DetailRow>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Dependencies</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TaskDependencies task={task} onChange={reloadTask} readOnly={!!task.deleted_at} />
+            </CardContent>
+          </Card>
+
+          {(parent || subtasks.length > 0 || task.next_occurrence_id) && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">Related</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4 text-sm">
+                {parent && (
+                  <Link to={`/tasks/${parent.id}`} className="flex items-center gap-2 hover:underline">
+                    <CornerLeftUp className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <span className="truncate">Subtask of {parent.title}</span>
+                  </Link>
+                )}
+
+                {task.next_occurrence_id && (
+                  <Link to={`/tasks/${task.next_occurrence_id}`} className="flex items-center gap-2 hover:underline">
+                    <Repeat className="h-4 w-4 text-muted-foreground shrink-0" />
+                    Next occurrence
+                  </Link>
+                )}
+
+                {subtasks.length > 0 && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-3 text-muted-foreground">
+                      <span className="shrink-0">{completedSubtasks}/{subtasks.length} subtasks</span>
+                      <Progress value={Math.round((completedSubtasks / subtasks.length) * 100)} className="h-1.5" />
+                    </div>
+                    <ul className="space-y-1">
+                      {subtasks.map(subtask => (
+                        <li key={subtask.id} className="flex items-center justify-between gap-2">
+                          <Link
+                            to={`/tasks/${subtask.id}`}
+                            className={cn(
+                              "truncate hover:underline",
+                              isDoneStatus(workflow, subtask.status) && "line-through text-muted-foreground"
+                            )}
+                          >
+                            {subtask.title}
+                          </Link>
+                          <StatusBadge status={subtask.status} />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="pt-6">
+              <TaskHistory key={historyKey} taskId={task.id} userEmails={userEmails} />
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <BlockedTaskDialog
+        task={blockedStatus ? task : null}
+        status={blockedStatus}
+        onConfirm={() => {
+          handleStatusChange(blockedStatus, true);
+          setBlockedStatus(null);
+        }}
+        onCancel={() => setBlockedStatus(null)}
+      />
+
+      {showTaskForm && (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+          <div className="w-full max-w-md animate-scale-in" onClick={(e) => e.stopPropagation()}>
+            <Card className="shadow-lg border-0">
+              <div className="flex justify-between items-center p-4 border-b">
+                <h2 className="text-lg font-medium">Edit Task</h2>
+                <Button variant="ghost" size="icon" onClick={() => setShowTaskForm(false)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <TaskForm
+                task={task}
+                onTaskUpdated={(updatedTask) => {
+                  setTask(updatedTask);
+                  setHistoryKey(key => key + 1);
+                  setShowTaskForm(false);
+                }}
+                onCancel={() => setShowTaskForm(false)}
+              />
+            </Card>
+          </div>
+        </div>
+      )}
+
+      <SaveTemplateDialog task={task} open={showSaveTemplate} onOpenChange={setShowSaveTemplate} />
+    </div>
+  );
+};
+
+export default TaskDetailView;
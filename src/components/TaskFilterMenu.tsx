@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { endOfDay, format } from 'date-fns';
+import { ArrowDownUp, SlidersHorizontal } from 'lucide-react';
+import { Tag, TaskFilters, TaskSort, getTags } from '@/lib/supabase';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TagBadge } from './ui-components';
+
+const PRIORITY_OPTIONS = [
+  { value: 3, label: 'High' },
+  { value: 2, label: 'Medium' },
+  { value: 1, label: 'Low' },
+];
+
+// Each option is encoded as "<key>:<asc|desc>" for the Select
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'created_at:desc', label: 'Newest first' },
+  { value: 'created_at:asc', label: 'Oldest first' },
+  { value: 'due_date:asc', label: 'Due date' },
+  { value: 'priority:desc', label: 'Priority' },
+  { value: 'title:asc', label: 'Title A–Z' },
+];
+
+interface TaskFilterMenuProps {
+  filters: TaskFilters;
+  onFiltersChange: (filters: TaskFilters) => void;
+  sort: TaskSort;
+  onSortChange: (sort: TaskSort) => void;
+  userEmails?: Record<string, string>;
+  isAdmin?: boolean;
+}
+
+// Toggles a value in an optional list, dropping the list once it is empty
+const toggle = <T,>(list: T[] | undefined, value: T) => {
+  const next = list?.includes(value) ? list.filter(item => item !== value) : [...(list || []), value];
+  return next.length > 0 ? next : undefined;
+};
+
+const TaskFilterMenu: React.FC<TaskFilterMenuProps> = ({
+  filters,
+  onFiltersChange,
+  sort,
+  onSortChange,
+  userEmails = {},
+  isAdmin = false,
+}) => {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const workflow = useWorkflow();
+
+  useEffect(() => {
+    const fetchTags = async () => {
+      try {
+        setTags(await getTags());
+      } catch (error) {
+        console.error('Error fetching tags:', error);
+      }
+    };
+
+    fetchTags();
+  }, []);
+
+  const activeCount = [
+    filters.status?.length,
+    filters.priority?.length,
+    filters.tagIds?.length,
+    filters.dueFrom || filters.dueTo,
+    filters.ownerId,
+  ].filter(Boolean).length;
+
+  const update = (updates: Partial<TaskFilters>) => onFiltersChange({ ...filters, ...updates });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <SlidersHorizontal className="h-4 w-4 mr-1" />
+            Filters{activeCount > 0 && ` (${activeCount})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-4" align="end">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            {workflow.statuses.map(option => (
+              <div key={option.key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`filter-status-${option.key}`}
+                  checked={filters.status?.includes(option.key) || false}
+                  onCheckedChange={() => update({ status: toggle(filters.status, option.key) })}
+                />
+                <Label htmlFor={`filter-status-${option.key}`} className="font-normal">{option.name}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            {PRIORITY_OPTIONS.map(option => (
+              <div key={option.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`filter-priority-${option.value}`}
+                  checked={filters.priority?.includes(option.value) || false}
+                  onCheckedChange={() => update({ priority: toggle(filters.priority, option.value) })}
+                />
+                <Label htmlFor={`filter-priority-${option.value}`} className="font-normal">{option.label}</Label>
+              </div>
+            ))}
+          </div>
+
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <Label>Tags</Label>
+              <div className="flex flex-wrap gap-1">
+                {tags.map(tag => (
+                  <button
+                    key={tag.id}
+                    type="button"
+                    onClick={() => update({ tagIds: toggle(filters.tagIds, tag.id) })}
+                    className={filters.tagIds?.includes(tag.id) ? '' : 'opacity-40 hover:opacity-70'}
+                  >
+                    <TagBadge tag={tag} />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Due between</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="h-8"
+                value={filters.dueFrom ? format(new Date(filters.dueFrom), 'yyyy-MM-dd') : ''}
+                onChange={(e) => update({
+                  dueFrom: e.target.value ? new Date(`${e.target.value}T00:00`).toISOString() : null
+                })}
+              />
+              <Input
+                type="date"
+                className="h-8"
+                value={filters.dueTo ? format(new Date(filters.dueTo), 'yyyy-MM-dd') : ''}
+                onChange={(e) => update({
+                  dueTo: e.target.value ? endOfDay(new Date(`${e.target.value}T00:00`)).toISOString() : null
+                })}
+              />
+            </div>
+          </div>
+
+          {isAdmin && (
+            <div className="space-y-2">
+              <Label>Owner</Label>
+              <Select
+                value={filters.ownerId || 'anyone'}
+                onValueChange={(value) => update({ ownerId: value === 'anyone' ? null : value })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="anyone">Anyone</SelectItem>
+                  {Object.entries(userEmails).map(([id, email]) => (
+                    <SelectItem key={id} value={id}>{email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Separator />
+
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full"
+            disabled={activeCount === 0}
+            onClick={() => onFiltersChange({})}
+          >
+            Clear filters
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Select
+        value={`${sort.key}:${sort.ascending ? 'asc' : 'desc'}`}
+        onValueChange={(value) => {
+          const [key, direction] = value.split(':');
+          onSortChange({ key: key as TaskSort['key'], ascending: direction === 'asc' });
+        }}
+      >
+        <SelectTrigger className="h-9 w-40" aria-label="Sort tasks">
+          <ArrowDownUp className="h-4 w-4 mr-1" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SORT_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default TaskFilterMenu;
@@ -0,0 +1,135 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider, useQuery } from '@tanstack/react-query';
+import { Task, updateTaskIfUnchanged } from '@/lib/supabase';
+import { taskKeys } from '@/hooks/use-tasks';
+import TaskForm from './TaskForm';
+
+const serverRow = vi.hoisted(() => ({ current: null as Record<string, unknown> | null }));
+
+// Only the network calls are replaced; the form, the update hook and the merge dialog are real
+vi.mock('@/lib/supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase')>()),
+  getUserDirectory: vi.fn(async () => []),
+  getTaskTemplates: vi.fn(async () => []),
+  getWorkflow: vi.fn(async () => ({ statuses: [], transitions: [] })),
+  getTags: vi.fn(async () => []),
+  updateTaskIfUnchanged: vi.fn(),
+  getTaskById: vi.fn(async () => ({ data: serverRow.current, error: null })),
+  setTaskTags: vi.fn(async () => undefined),
+}));
+
+const base: Task = {
+  id: 'task-1',
+  title: 'Write report',
+  description: '',
+  status: 'pending',
+  due_date: null,
+  priority: 1,
+  created_at: '2026-10-01T09:00:00.000Z',
+  updated_at: '2026-10-19T09:00:00.000Z',
+  user_id: 'user-1',
+  assignee_id: null,
+  auto_complete: false,
+  recurrence: null,
+  series_id: null,
+  tags: [],
+};
+
+// Stands in for TaskList: the open task comes from a tasks query that is refetched after
+// every save, so the form is re-rendered with a new task object while the dialog is open
+const Host = ({ fetchTasks }: { fetchTasks: () => Promise<Task[]> }) => {
+  const { data: tasks = [] } = useQuery({ queryKey: taskKeys.calendar('2026-10-01', '2026-10-31', ['pending']), queryFn: fetchTasks });
+  const task = tasks.find(t => t.id === 'task-1');
+  if (!task) return null;
+
+  return (
+    <div className="fixed inset-0">
+      <TaskForm task={task} onTaskUpdated={vi.fn()} onCancel={vi.fn()} />
+    </div>
+  );
+};
+
+beforeAll(() => {
+  // Radix reads these, and jsdom doesn't have them
+  globalThis.ResizeObserver = class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  };
+  Element.prototype.scrollIntoView = () => {};
+  Element.prototype.hasPointerCapture = () => false;
+});
+
+afterEach(() => {
+  cleanup();
+  vi.clearAllMocks();
+});
+
+describe('TaskForm edit conflicts', () => {
+  it('opens the merge dialog and saves the merged task against their version', async () => {
+    const server = { ...base, title: 'Write the Q4 report', updated_at: '2026-10-19T10:00:00.000Z' };
+    serverRow.current = server;
+    const fetchTasks = vi.fn(async () => [base]);
+    vi.mocked(updateTaskIfUnchanged)
+      .mockResolvedValueOnce({ data: null, error: null } as never)
+      .mockResolvedValueOnce({ data: { ...server, title: 'Write report v2', updated_at: '2026-10-19T11:00:00.000Z' }, error: null } as never);
+
+    const user = userEvent.setup();
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    render(
+      <QueryClientProvider client={queryClient}>
+        <Host fetchTasks={fetchTasks} />
+      </QueryClientProvider>
+    );
+
+    const title = await screen.findByDisplayValue('Write report');
+    await user.clear(title);
+    await user.type(title, 'Write report v2');
+    await user.click(screen.getByRole('button', { name: /update task/i }));
+
+    expect(await screen.findByText('This task was changed while you were editing')).toBeTruthy();
+    expect(updateTaskIfUnchanged).toHaveBeenCalledWith('task-1', expect.objectContaining({ title: 'Write report v2' }), base.updated_at);
+
+    // The failed save refetches the list; the dialog has to survive the re-render
+    await waitFor(() => expect(fetchTasks).toHaveBeenCalledTimes(2));
+    expect(screen.getByText('This task was changed while you were editing')).toBeTruthy();
+
+    await user.click(screen.getByRole('button', { name: 'Save merged task' }));
+
+    await waitFor(() => expect(updateTaskIfUnchanged).toHaveBeenCalledTimes(2));
+    expect(updateTaskIfUnchanged).toHaveBeenLastCalledWith(
+      'task-1',
+      expect.objectContaining({ title: 'Write report v2' }),
+      server.updated_at
+    );
+    await waitFor(() => expect(screen.queryByText('This task was changed while you were editing')).toBeNull());
+  });
+
+  it('retries without asking when their version matches every field edited here', async () => {
+    serverRow.current = { ...base, title: 'Write report v2', updated_at: '2026-10-19T10:00:00.000Z' };
+    vi.mocked(updateTaskIfUnchanged)
+      .mockResolvedValueOnce({ data: null, error: null } as never)
+      .mockResolvedValueOnce({ data: { ...serverRow.current, updated_at: '2026-10-19T11:00:00.000Z' }, error: null } as never);
+
+    const user = userEvent.setup();
+    const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    render(
+      <QueryClientProvider client={queryClient}>
+        <Host fetchTasks={async () => [base]} />
+      </QueryClientProvider>
+    );
+
+    const title = await screen.findByDisplayValue('Write report');
+    await user.clear(title);
+    await user.type(title, 'Write report v2');
+    await user.click(screen.getByRole('button', { name: /update task/i }));
+
+    await waitFor(() => expect(updateTaskIfUnchanged).toHaveBeenCalledTimes(2));
+    expect(updateTaskIfUnchanged).toHaveBeenLastCalledWith('task-1', expect.anything(), '2026-10-19T10:00:00.000Z');
+    expect(screen.queryByText('This task was changed while you were editing')).toBeNull();
+  });
+});
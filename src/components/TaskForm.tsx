@@ -1,13 +1,17 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
+import { useQuery } from '@tanstack/react-query';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { CalendarIcon } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { CalendarIcon, LayoutTemplate, Paperclip, X } from 'lucide-react';
 import { Calendar } from '@/components/ui/calendar';
 import {
   Popover,
@@ -17,27 +21,99 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Task, TaskStatus, createTask, updateTask } from '@/lib/supabase';
+import { 
+  Task, 
+  Tag, 
+  TaskStatus, 
+  UserSummary, 
+  TemplateTask, 
+  getUserDirectory, 
+  getTaskTemplates, 
+  updateTaskSeries, 
+  setTaskTags, 
+  uploadTaskAttachment, 
+  validateAttachment 
+} from '@/lib/supabase';
+import { RecurrenceFrequency, RecurrenceRule, WEEKDAY_LABELS } from '@/lib/recurrence';
+import { taskFieldsSchema } from '@/lib/validation';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { useCreateTask, useUpdateTask, useRefreshTasks, useTaskCompletion, TaskConflictError } from '@/hooks/use-tasks';
+import { getDifferingFields } from '@/lib/conflicts';
+import { isBlockedStatusChange } from '@/lib/dependencies';
+import { canTransition, getAllowedStatuses, getInitialStatus, getStatus, isDoneStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import {
+  countTemplateSubtasks,
+  expandPlaceholders,
+  getMissingTemplateTags,
+  resolveTemplateDueDate,
+  resolveTemplateTags
+} from '@/lib/templates';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import TagPicker from './TagPicker';
+import FileDropzone from './FileDropzone';
+import TaskMergeDialog from './TaskMergeDialog';
+import BlockedTaskDialog from './BlockedTaskDialog';
 
-const taskSchema = z.object({
-  title: z.string().min(1, 'Title is required'),
-  description: z.string().optional(),
-  status: z.enum(['pending', 'in_progress', 'completed'] as const),
-  due_date: z.date().optional().nullable(),
-  priority: z.number().min(1).max(3),
-  category: z.string().optional(),
+const taskSchema = taskFieldsSchema.extend({
+  auto_complete: z.boolean(),
+  assignee_id: z.string().nullable(),
+  repeat: z.enum(['none', 'daily', 'weekdays', 'weekly', 'monthly', 'after_completion'] as const),
+  repeat_weekdays: z.array(z.number()),
+  repeat_month_day: z.number().min(1).max(31),
+  repeat_interval: z.number().min(1, 'Interval must be at least 1 day'),
+  edit_scope: z.enum(['occurrence', 'series'] as const),
+}).refine(data => data.repeat !== 'weekly' || data.repeat_weekdays.length > 0, {
+  message: 'Choose at least one day',
+  path: ['repeat_weekdays'],
 });
 
 type TaskFormValues = z.infer<typeof taskSchema>;
 
+type EditScope = TaskFormValues['edit_scope'];
+
+// The template a new task was started from; its subtasks are created along with the task.
+// Tags are the user's own that existed when it was picked, by lowercase name; the template's
+// other tags are only created once the task is saved.
+type AppliedTemplate = {
+  content: TemplateTask;
+  tags: Map<string, Tag>;
+};
+
+// A save that hit someone else's newer version of the task
+type EditConflict = {
+  editScope: EditScope;
+  base: Task;
+  local: Task;
+  server: Task;
+};
+
+const buildRecurrence = (data: TaskFormValues): RecurrenceRule | null => {
+  switch (data.repeat) {
+    case 'none':
+      return null;
+    case 'weekly':
+      return { frequency: 'weekly', weekdays: data.repeat_weekdays };
+    case 'monthly':
+      return { frequency: 'monthly', monthDay: data.repeat_month_day };
+    case 'after_completion':
+      return { frequency: 'after_completion', interval: data.repeat_interval };
+    default:
+      return { frequency: data.repeat };
+  }
+};
+
 interface TaskFormProps {
   task?: Task | null;
+  parentTask?: Task | null;
+  defaultDueDate?: Date | null;
   onTaskCreated?: (task: Task) => void;
   onTaskUpdated?: (task: Task) => void;
   onCancel?: () => void;
@@ -45,19 +121,65 @@ interface TaskFormProps {
 
 const TaskForm: React.FC<TaskFormProps> = ({
   task,
+  parentTask,
+  defaultDueDate,
   onTaskCreated,
   onTaskUpdated,
   onCancel,
 }) => {
   const isEditing = !!task;
+  const [tags, setTags] = useState<Tag[]>(task?.tags || parentTask?.tags || []);
+  const [users, setUsers] = useState<UserSummary[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [conflict, setConflict] = useState<EditConflict | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  // Form values held back until the user confirms moving a blocked task forward
+  const [blockedSubmit, setBlockedSubmit] = useState<TaskFormValues | null>(null);
+  const [appliedTemplate, setAppliedTemplate] = useState<AppliedTemplate | null>(null);
+  const { online } = useSyncStatus();
+  const createTaskMutation = useCreateTask();
+  const updateTaskMutation = useUpdateTask();
+  const completeTask = useTaskCompletion();
+  const refreshTasks = useRefreshTasks();
+  const workflow = useWorkflow();
+  
+  // Templates are only offered for new tasks
+  const { data: templates = [] } = useQuery({
+    queryKey: ['task-templates'],
+    queryFn: getTaskTemplates,
+    enabled: !isEditing,
+  });
+  const myTemplates = templates.filter(template => !template.shared);
+  const templateSubtaskCount = appliedTemplate ? countTemplateSubtasks(appliedTemplate.content) : 0;
+  const newTemplateTags = appliedTemplate ? getMissingTemplateTags(appliedTemplate.content, appliedTemplate.tags) : [];
+  const sharedTemplates = templates.filter(template => template.shared);
+  
+  // Teammates the task can be assigned to
+  useEffect(() => {
+    const fetchUsers = async () => {
+      try {
+        setUsers(await getUserDirectory());
+      } catch (error) {
+        console.error('Error fetching users:', error);
+      }
+    };
+    
+    fetchUsers();
+  }, []);
   
   const defaultValues: TaskFormValues = {
     title: task?.title || '',
     description: task?.description || '',
-    status: (task?.status as TaskStatus) || 'pending',
-    due_date: task?.due_date ? new Date(task.due_date) : null,
+    status: task?.status || getInitialStatus(workflow),
+    due_date: task?.due_date ? new Date(task.due_date) : defaultDueDate || null,
     priority: task?.priority || 1,
-    category: task?.category || '',
+    auto_complete: task?.auto_complete ?? false,
+    assignee_id: task?.assignee_id || null,
+    repeat: task?.recurrence?.frequency || 'none',
+    repeat_weekdays: task?.recurrence?.weekdays || [(task?.due_date ? new Date(task.due_date) : new Date()).getDay()],
+    repeat_month_day: task?.recurrence?.monthDay || (task?.due_date ? new Date(task.due_date) : new Date()).getDate(),
+    repeat_interval: task?.recurrence?.interval || 1,
+    edit_scope: 'occurrence',
   };
   
   const {
@@ -74,50 +196,345 @@ const TaskForm: React.FC<TaskFormProps> = ({
   });
   
   const selectedDate = watch('due_date');
+  const repeat = watch('repeat');
+  const status = watch('status');
+  // An existing task can only move where the workflow allows; a new one can start anywhere
+  const statusOptions = isEditing ? getAllowedStatuses(workflow, task.status) : workflow.statuses;
   
-  const onSubmit = async (data: TaskFormValues) => {
+  // New tasks default to the built-in workflow until the configured one loads
+  useEffect(() => {
+    if (!isEditing && !workflow.statuses.some(option => option.key === status)) {
+      setValue('status', getInitialStatus(workflow));
+    }
+  }, [isEditing, workflow, status, setValue]);
+  
+  const addPendingFiles = (files: File[]) => {
+    const valid = files.filter(file => {
+      const error = validateAttachment(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+    setPendingFiles(prevFiles => [...prevFiles, ...valid]);
+  };
+  
+  // Files are uploaded once the task row exists; a failed upload doesn't undo the save
+  const uploadPendingFiles = async (taskId: string) => {
+    let uploaded = 0;
+    for (const file of pendingFiles) {
+      try {
+        await uploadTaskAttachment(taskId, file);
+        uploaded++;
+      } catch (error) {
+        toast.error(`Failed to upload ${file.name}: ${(error as Error).message}`);
+      }
+    }
+    setPendingFiles([]);
+    return uploaded;
+  };
+  
+  // Saves `version` only if the task is still as it was in `base`. When someone else saved in
+  // between, the merge dialog opens and this resolves to null; if their version already has the
+  // same value as this one in every merge field, it is simply retried against their version.
+  const saveEdit = async (editScope: EditScope, version: Task, base: Task): Promise<Task | null> => {
     try {
-      if (isEditing && task) {
-        const { data: updatedTask, error } = await updateTask(task.id, {
-          title: data.title,
-          description: data.description,
-          status: data.status,
-          due_date: data.due_date ? data.due_date.toISOString() : null,
-          priority: data.priority,
-          category: data.category || null,
+      return await updateTaskMutation.mutateAsync({
+        task,
+        changes: {
+          title: version.title,
+          description: version.description,
+          status: version.status,
+          due_date: version.due_date,
+          priority: version.priority,
+          auto_complete: version.auto_complete,
+          assignee_id: version.assignee_id,
+          recurrence: version.recurrence,
+          series_id: version.series_id,
+        },
+        tags: version.tags,
+        expectedUpdatedAt: base.updated_at,
+      });
+    } catch (error) {
+      if (!(error instanceof TaskConflictError)) throw error;
+      
+      const server = error.serverTask;
+      if (!server) throw error;
+      if (server.deleted_at) throw new Error('This task was moved to the Trash by someone else');
+      
+      if (getDifferingFields(version, server).length === 0) return saveEdit(editScope, version, server);
+      
+      setConflict({ editScope, base, local: version, server });
+      return null;
+    }
+  };
+  
+  // Attachments and series edits need the server, so they only happen online
+  const finishEdit = async (editScope: EditScope, version: Task, updatedTask: Task) => {
+    let uploaded = 0;
+    if (online) {
+      // Carry the shared fields over to the other open occurrences
+      if (editScope === 'series' && task.series_id) {
+        const { data: occurrences, error: seriesError } = await updateTaskSeries(task.series_id, {
+          title: version.title,
+          description: version.description,
+          priority: version.priority,
+          auto_complete: version.auto_complete,
+          recurrence: version.recurrence,
         });
         
-        if (error) throw error;
-        if (updatedTask && onTaskUpdated) {
-          onTaskUpdated(updatedTask as Task);
-          toast.success('Task updated successfully');
+        if (seriesError) throw seriesError;
+        
+        await Promise.all(
+          occurrences
+            .filter(occurrence => occurrence.id !== task.id)
+            .map(occurrence => setTaskTags(occurrence.id, (version.tags || []).map(tag => tag.id)))
+        );
+      }
+      
+      uploaded = await uploadPendingFiles(task.id);
+      refreshTasks();
+    }
+    
+    onTaskUpdated?.({ ...updatedTask, attachment_count: (updatedTask.attachment_count ?? 0) + uploaded });
+    toast.success(online ? 'Task updated successfully' : 'Task updated offline. It will sync when you\'re back online.');
+    
+    // Completing a task here schedules its next occurrence and can complete its parent, as it
+    // does from the list
+    if (isDoneStatus(workflow, version.status) && !isDoneStatus(workflow, task.status)) {
+      try {
+        const { nextTask } = await completeTask(updatedTask);
+        if (nextTask) {
+          refreshTasks();
+          toast.success(`Next occurrence scheduled for ${format(new Date(nextTask.due_date), 'PPP')}`);
         }
+      } catch (error) {
+        toast.error('Failed to update related tasks: ' + (error as Error).message);
+      }
+    }
+  };
+  
+  const resolveConflict = async (merged: Task) => {
+    if (!conflict) return;
+    
+    const { editScope, server } = conflict;
+    // Keep the series the other person set up, or start one if the merged task repeats
+    const version = { ...merged, series_id: server.series_id || (merged.recurrence ? task.id : null) };
+    
+    setIsResolving(true);
+    try {
+      const updatedTask = await saveEdit(editScope, version, server);
+      if (updatedTask) {
+        setConflict(null);
+        await finishEdit(editScope, version, updatedTask);
+      }
+    } catch (error) {
+      setConflict(null);
+      toast.error((error as Error).message || 'An error occurred');
+    } finally {
+      setIsResolving(false);
+    }
+  };
+  
+  // Fills the form from a template, resolving its date placeholders against today
+  const applyTemplate = async (templateId: string) => {
+    const template = templates.find(option => option.id === templateId);
+    if (!template) return;
+    
+    try {
+      const { content } = template;
+      const templateTags = await resolveTemplateTags(content);
+      
+      setValue('title', expandPlaceholders(content.title));
+      setValue('description', expandPlaceholders(content.description || ''));
+      setValue('priority', content.priority || 1);
+      setValue('auto_complete', content.auto_complete ?? false);
+      setValue('due_date', resolveTemplateDueDate(content.due_date));
+      // Tags the user doesn't have yet are added when the task is saved
+      setTags((content.tags || []).map(tag => templateTags.get(tag.name.toLowerCase())).filter(Boolean));
+      setAppliedTemplate({ content, tags: templateTags });
+    } catch (error) {
+      toast.error('Failed to apply template: ' + (error as Error).message);
+    }
+  };
+  
+  // Created one at a time so they keep the template's order
+  const createTemplateSubtasks = async (parentId: string, subtasks: TemplateTask[], templateTags: Map<string, Tag>) => {
+    for (const subtask of subtasks) {
+      const dueDate = resolveTemplateDueDate(subtask.due_date);
+      const created = await createTaskMutation.mutateAsync({
+        id: crypto.randomUUID(),
+        fields: {
+          title: expandPlaceholders(subtask.title),
+          description: expandPlaceholders(subtask.description || ''),
+          status: getInitialStatus(workflow),
+          due_date: dueDate ? dueDate.toISOString() : null,
+          priority: subtask.priority || 1,
+          auto_complete: subtask.auto_complete ?? false,
+          assignee_id: null,
+          recurrence: null,
+          parent_id: parentId,
+          series_id: null,
+        },
+        tags: (subtask.tags || []).map(tag => templateTags.get(tag.name.toLowerCase())).filter(Boolean),
+      });
+      
+      if (subtask.subtasks?.length) {
+        await createTemplateSubtasks(created.id, subtask.subtasks, templateTags);
+      }
+    }
+  };
+  
+  const saveTask = async (data: TaskFormValues) => {
+    const recurrence = buildRecurrence(data);
+    const fields = {
+      title: data.title,
+      description: data.description,
+      status: data.status,
+      due_date: data.due_date ? data.due_date.toISOString() : null,
+      priority: data.priority,
+      auto_complete: data.auto_complete,
+      assignee_id: data.assignee_id,
+      recurrence,
+    };
+    
+    // Offline, the task is saved on this device and queued until the connection is back
+    try {
+      if (isEditing && task) {
+        const version: Task = {
+          ...task,
+          ...fields,
+          // A task that starts repeating becomes the first occurrence of its own series
+          series_id: task.series_id || (recurrence ? task.id : null),
+          tags,
+        };
+        
+        const updatedTask = await saveEdit(data.edit_scope, version, task);
+        if (updatedTask) await finishEdit(data.edit_scope, version, updatedTask);
       } else {
-        const { data: newTask, error } = await createTask({
-          title: data.title,
-          description: data.description,
-          status: data.status,
-          due_date: data.due_date ? data.due_date.toISOString() : null,
-          priority: data.priority,
-          category: data.category || null,
+        // Creating the template's missing tags needs the server; offline they are left off
+        let templateTags = appliedTemplate?.tags;
+        let newTemplateTags: Tag[] = [];
+        if (appliedTemplate) {
+          const missing = getMissingTemplateTags(appliedTemplate.content, appliedTemplate.tags);
+          if (online) {
+            templateTags = await resolveTemplateTags(appliedTemplate.content, true);
+            newTemplateTags = (appliedTemplate.content.tags || [])
+              .filter(tag => !appliedTemplate.tags.has(tag.name.toLowerCase()))
+              .map(tag => templateTags.get(tag.name.toLowerCase()))
+              .filter(Boolean);
+          } else if (missing.length > 0) {
+            toast.warning(`New tags can't be created offline: ${missing.map(tag => `#${tag.name}`).join(', ')}`);
+          }
+        }
+        
+        const newTask = await createTaskMutation.mutateAsync({
+          id: crypto.randomUUID(),
+          fields: {
+            ...fields,
+            parent_id: parentTask?.id || null,
+            series_id: recurrence ? crypto.randomUUID() : null,
+          },
+          tags: [...tags, ...newTemplateTags.filter(tag => !tags.some(picked => picked.id === tag.id))],
         });
         
-        if (error) throw error;
-        if (newTask && onTaskCreated) {
-          onTaskCreated(newTask as Task);
-          toast.success('Task created successfully');
+        if (appliedTemplate?.content.subtasks?.length) {
+          await createTemplateSubtasks(newTask.id, appliedTemplate.content.subtasks, templateTags);
         }
+        setAppliedTemplate(null);
+        
+        let uploaded = 0;
+        if (online) {
+          uploaded = await uploadPendingFiles(newTask.id);
+          if (uploaded > 0) refreshTasks();
+        }
+        
+        onTaskCreated?.({ ...newTask, attachment_count: uploaded });
+        toast.success(online ? 'Task created successfully' : 'Task created offline. It will sync when you\'re back online.');
         
         reset();
+        setTags([]);
+      }
+      
+      if (!online && pendingFiles.length > 0) {
+        toast.warning('Attachments were not uploaded while offline');
+        setPendingFiles([]);
       }
     } catch (error: any) {
       toast.error(error.message || 'An error occurred');
     }
   };
   
+  const onSubmit = async (data: TaskFormValues) => {
+    if (isEditing && !canTransition(workflow, task.status, data.status)) {
+      toast.error(`Tasks can't move from ${getStatus(workflow, task.status).name} to ${getStatus(workflow, data.status).name}`);
+      return;
+    }
+    
+    if (isEditing && isBlockedStatusChange(task, data.status, workflow)) {
+      setBlockedSubmit(data);
+      return;
+    }
+    
+    await saveTask(data);
+  };
+  
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="p-4">
       <div className="space-y-4">
+        {parentTask && (
+          <p className="text-sm text-muted-foreground">
+            Subtask of <span className="font-medium text-foreground">{parentTask.title}</span>
+          </p>
+        )}
+        
+        {!isEditing && templates.length > 0 && (
+          <div className="space-y-2">
+            <Select value="" onValueChange={applyTemplate}>
+              <SelectTrigger>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <LayoutTemplate className="h-4 w-4" />
+                  Start from a template
+                </span>
+              </SelectTrigger>
+              <SelectContent>
+                {myTemplates.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>My templates</SelectLabel>
+                    {myTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                {sharedTemplates.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Organization</SelectLabel>
+                    {sharedTemplates.map(template => (
+                      <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            {appliedTemplate && (templateSubtaskCount > 0 || newTemplateTags.length > 0) && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {templateSubtaskCount > 0 && `${templateSubtaskCount} subtasks will be added from the template. `}
+                  {newTemplateTags.length > 0 && `New tags ${newTemplateTags.map(tag => `#${tag.name}`).join(', ')} will be created on save.`}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => setAppliedTemplate(null)}
+                  aria-label="Don't add the template's subtasks or new tags"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+        
         <div className="space-y-2">
           <Label htmlFor="title">Title</Label>
           <Input 
@@ -144,24 +561,27 @@ const TaskForm: React.FC<TaskFormProps> = ({
           <div className="space-y-2">
             <Label htmlFor="status">Status</Label>
             <Select 
-              defaultValue={defaultValues.status} 
+              value={status} 
               onValueChange={(value) => setValue('status', value as TaskStatus)}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select status" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="pending">Pending</SelectItem>
-                <SelectItem value="in_progress">In Progress</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                {statusOptions.map(option => (
+                  <SelectItem key={option.key} value={option.key}>{option.name}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
+            {errors.status && (
+              <p className="text-sm text-red-500">{errors.status.message}</p>
+            )}
           </div>
           
           <div className="space-y-2">
             <Label htmlFor="priority">Priority</Label>
             <Select 
-              defaultValue={defaultValues.priority.toString()} 
+              value={watch('priority').toString()} 
               onValueChange={(value) => setValue('priority', parseInt(value))}
             >
               <SelectTrigger>
@@ -205,15 +625,163 @@ const TaskForm: React.FC<TaskFormProps> = ({
           </div>
           
           <div className="space-y-2">
-            <Label htmlFor="category">Category (optional)</Label>
-            <Input 
-              id="category" 
-              {...register('category')} 
-              placeholder="e.g., Work, Personal" 
-            />
+            <Label>Tags (optional)</Label>
+            <TagPicker value={tags} onChange={setTags} />
           </div>
         </div>
         
+        <div className="space-y-2">
+          <Label htmlFor="assignee">Assignee (optional)</Label>
+          <Select 
+            defaultValue={defaultValues.assignee_id || 'unassigned'} 
+            onValueChange={(value) => setValue('assignee_id', value === 'unassigned' ? null : value)}
+          >
+            <SelectTrigger id="assignee">
+              <SelectValue placeholder="Unassigned" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="repeat">Repeat</Label>
+          <Select 
+            defaultValue={defaultValues.repeat} 
+            onValueChange={(value) => setValue('repeat', value as RecurrenceFrequency | 'none')}
+          >
+            <SelectTrigger id="repeat">
+              <SelectValue placeholder="Does not repeat" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekdays">Every weekday</SelectItem>
+              <SelectItem value="weekly">Weekly on chosen days</SelectItem>
+              <SelectItem value="monthly">Monthly on a date</SelectItem>
+              <SelectItem value="after_completion">Every N days after completion</SelectItem>
+            </SelectContent>
+          </Select>
+          
+          {repeat === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              size="sm"
+              className="justify-start"
+              value={watch('repeat_weekdays').map(String)}
+              onValueChange={(values) => setValue('repeat_weekdays', values.map(Number))}
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={label} value={String(day)} className="px-2 text-xs">
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+          {errors.repeat_weekdays && (
+            <p className="text-sm text-red-500">{errors.repeat_weekdays.message}</p>
+          )}
+          
+          {repeat === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>On day</span>
+              <Input 
+                type="number" 
+                min={1} 
+                max={31} 
+                className="w-20" 
+                {...register('repeat_month_day', { valueAsNumber: true })} 
+              />
+              <span className="text-muted-foreground">of each month</span>
+            </div>
+          )}
+          
+          {repeat === 'after_completion' && (
+            <div className="flex items-center gap-2 text-sm">
+              <span>Every</span>
+              <Input 
+                type="number" 
+                min={1} 
+                className="w-20" 
+                {...register('repeat_interval', { valueAsNumber: true })} 
+              />
+              <span className="text-muted-foreground">days after completion</span>
+            </div>
+          )}
+          {(errors.repeat_month_day || errors.repeat_interval) && (
+            <p className="text-sm text-red-500">
+              {errors.repeat_month_day?.message || errors.repeat_interval?.message}
+            </p>
+          )}
+        </div>
+        
+        {isEditing && task?.series_id && task.recurrence && (
+          <div className="space-y-2">
+            <Label>Apply changes to</Label>
+            <RadioGroup
+              defaultValue="occurrence"
+              onValueChange={(value) => setValue('edit_scope', value as 'occurrence' | 'series')}
+              className="flex gap-4"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="occurrence" id="scope-occurrence" />
+                <Label htmlFor="scope-occurrence" className="font-normal">This occurrence</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="series" id="scope-series" />
+                <Label htmlFor="scope-series" className="font-normal">All open occurrences</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+        
+        <div className="flex items-center justify-between rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <Label htmlFor="auto_complete">Auto-complete</Label>
+            <p className="text-xs text-muted-foreground">
+              Mark this task completed when all of its subtasks are done
+            </p>
+          </div>
+          <Switch
+            id="auto_complete"
+            checked={watch('auto_complete')}
+            onCheckedChange={(checked) => setValue('auto_complete', checked)}
+          />
+        </div>
+        
+        <div className="space-y-2">
+          <Label>Attachments (optional)</Label>
+          <FileDropzone 
+            onFiles={addPendingFiles} 
+            disabled={isSubmitting || !online} 
+            hint={online ? undefined : 'Attachments can be added once you\'re back online'}
+          />
+          {pendingFiles.length > 0 && (
+            <ul className="space-y-1">
+              {pendingFiles.map((file, index) => (
+                <li key={`${file.name}-${index}`} className="flex items-center gap-2 text-sm">
+                  <Paperclip className="h-3 w-3 text-muted-foreground" />
+                  <span className="flex-1 truncate">{file.name}</span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => setPendingFiles(prevFiles => prevFiles.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        
         <div className="flex justify-end gap-3 pt-4">
           <Button variant="outline" type="button" onClick={onCancel}>
             Cancel
@@ -228,6 +796,30 @@ const TaskForm: React.FC<TaskFormProps> = ({
           </Button>
         </div>
       </div>
+      
+      {/* Dialogs are portalled out of the form, so their buttons don't submit it */}
+      <BlockedTaskDialog
+        task={blockedSubmit ? task : null}
+        status={blockedSubmit?.status ?? null}
+        onConfirm={() => {
+          saveTask(blockedSubmit);
+          setBlockedSubmit(null);
+        }}
+        onCancel={() => setBlockedSubmit(null)}
+      />
+      
+      {conflict && (
+        <TaskMergeDialog
+          open
+          base={conflict.base}
+          local={conflict.local}
+          server={conflict.server}
+          userEmails={Object.fromEntries(users.map(user => [user.id, user.email]))}
+          isSaving={isResolving}
+          onResolve={resolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
     </form>
   );
 };
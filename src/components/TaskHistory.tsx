@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2 } from 'lucide-react';
+import { TaskHistoryEntry, getTaskHistory } from '@/lib/supabase';
+import { RecurrenceRule, describeRecurrence } from '@/lib/recurrence';
+import { getStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { toast } from 'sonner';
+
+interface TaskHistoryProps {
+  taskId: string;
+  userEmails?: Record<string, string>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  due_date: 'due date',
+  priority: 'priority',
+  user_id: 'owner',
+  assignee_id: 'assignee',
+  parent_id: 'parent task',
+  auto_complete: 'auto-complete',
+  recurrence: 'repeat rule',
+};
+
+// Bookkeeping columns that change as a side effect and would only add noise
+const HIDDEN_FIELDS = ['series_id', 'next_occurrence_id'];
+
+const TaskHistory: React.FC<TaskHistoryProps> = ({ taskId, userEmails = {} }) => {
+  const [entries, setEntries] = useState<TaskHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const workflow = useWorkflow();
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setIsLoading(true);
+      try {
+        setEntries(await getTaskHistory(taskId));
+      } catch (error) {
+        toast.error('Failed to load task history');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [taskId]);
+
+  const formatValue = (field: string, value: unknown) => {
+    if (value === null || value === undefined || value === '') return 'none';
+
+    switch (field) {
+      case 'status':
+        return getStatus(workflow, String(value)).name;
+      case 'priority':
+        return value === 3 ? 'High' : value === 2 ? 'Medium' : 'Low';
+      case 'due_date':
+        return format(new Date(String(value)), 'PPp');
+      case 'user_id':
+      case 'assignee_id':
+        return userEmails[String(value)] || 'unknown user';
+      case 'parent_id':
+        return 'another task';
+      case 'recurrence':
+        return describeRecurrence(value as RecurrenceRule);
+      case 'auto_complete':
+        return value ? 'on' : 'off';
+      default: {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+      }
+    }
+  };
+
+  const describeEntry = (entry: TaskHistoryEntry) => {
+    if (entry.action === 'created') return 'created the task';
+    if (entry.action === 'deleted') return 'permanently deleted the task';
+    if (entry.field === 'deleted_at') {
+      return entry.new_value ? 'moved the task to Trash' : 'restored the task from Trash';
+    }
+
+    const label = FIELD_LABELS[entry.field] || entry.field;
+    return (
+      <>
+        changed {label} from{' '}
+        <span className="font-medium">{formatValue(entry.field, entry.old_value)}</span> to{' '}
+        <span className="font-medium">{formatValue(entry.field, entry.new_value)}</span>
+      </>
+    );
+  };
+
+  const visibleEntries = entries.filter(entry => !HIDDEN_FIELDS.includes(entry.field));
+
+  return (
+    <div className="space-y-4">
+      <h3 className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        History
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No recorded changes yet.</p>
+      ) : (
+        <ol className="relative space-y-3 border-l border-gray-200 pl-4">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className="text-sm">
+              <span className="absolute -left-1 mt-1.5 h-2 w-2 rounded-full bg-gray-300" />
+              <p className="break-words">
+                <span className="font-medium">{entry.actor?.email || 'System'}</span>{' '}
+                {describeEntry(entry)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(entry.created_at), 'PPp')}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TaskHistory;
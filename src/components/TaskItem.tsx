@@ -1,11 +1,24 @@
 
 import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Task, getUserRole } from '@/lib/supabase';
-import { StatusBadge, PriorityIndicator } from './ui-components';
+import { describeRecurrence } from '@/lib/recurrence';
+import { getOpenBlockers, getOpenLinks } from '@/lib/dependencies';
+import { getStatus, isDoneStatus, getInitialStatus, getCompletedStatus, getAllowedStatuses } from '@/lib/workflow';
+import { ICON_COLORS, STATUS_ICONS } from '@/lib/constants';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { StatusBadge, PriorityIndicator, TagBadge, SearchSnippet } from './ui-components';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
 import { 
   DropdownMenu, 
   DropdownMenuContent, 
@@ -14,14 +27,21 @@ import {
   DropdownMenuSeparator
 } from '@/components/ui/dropdown-menu';
 import { 
-  CheckCircle2, 
   CircleIcon, 
   MoreHorizontal, 
   Calendar, 
   Pencil, 
   Trash2,
-  Clock,
-  UserIcon
+  UserIcon,
+  UserCheck,
+  ListPlus,
+  ChevronRight,
+  Repeat,
+  MessageSquare,
+  PanelRightOpen,
+  Paperclip,
+  Lock,
+  Link2
 } from 'lucide-react';
 
 interface TaskItemProps {
@@ -29,8 +49,17 @@ interface TaskItemProps {
   onStatusChange: (id: string, status: Task['status']) => void;
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
+  onAddSubtask?: (parent: Task) => void;
+  onOpenDetails?: (task: Task) => void;
+  subtaskMap?: Record<string, Task[]>;
+  userEmails?: Record<string, string>;
   userEmail?: string;
   isAdmin?: boolean;
+  selectedIds?: Set<string>;
+  // shiftKey extends the selection from the last clicked task
+  onSelect?: (task: Task, shiftKey: boolean) => void;
+  // Tasks that were just changed elsewhere and are briefly highlighted
+  highlightedIds?: Set<string>;
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({ 
@@ -38,21 +67,35 @@ const TaskItem: React.FC<TaskItemProps> = ({
   onStatusChange,
   onDelete,
   onEdit,
+  onAddSubtask,
+  onOpenDetails,
+  subtaskMap = {},
+  userEmails = {},
   userEmail,
-  isAdmin = false
+  isAdmin = false,
+  selectedIds,
+  onSelect,
+  highlightedIds
 }) => {
-  const { id, title, description, status, due_date, priority, category, user_id } = task;
+  const { id, title, description, status, due_date, priority, tags = [], user_id, assignee_id, recurrence, comment_count = 0, attachment_count = 0 } = task;
+  const [showSubtasks, setShowSubtasks] = useState(true);
+  
+  const workflow = useWorkflow();
+  const isDone = isDoneStatus(workflow, status);
+  
+  const subtasks = subtaskMap[id] || [];
+  const completedSubtasks = subtasks.filter(subtask => isDoneStatus(workflow, subtask.status)).length;
+  const progress = subtasks.length > 0 ? Math.round((completedSubtasks / subtasks.length) * 100) : 0;
+  const openBlockers = getOpenBlockers(task, workflow);
+  // Tasks still waiting on this one
+  const openDependents = getOpenLinks(task.blocks, workflow);
   
   const getStatusIcon = () => {
-    switch (status) {
-      case 'completed':
-        return <CheckCircle2 className="h-5 w-5 text-green-500" />;
-      case 'in_progress':
-        return <Clock className="h-5 w-5 text-blue-500" />;
-      case 'pending':
-      default:
-        return <CircleIcon className="h-5 w-5 text-muted-foreground" />;
-    }
+    const { icon, color } = getStatus(workflow, status);
+    const Icon = STATUS_ICONS[icon] || CircleIcon;
+    // Tasks that haven't been started stay neutral so the list doesn't light up
+    const iconColor = status === getInitialStatus(workflow) ? 'text-muted-foreground' : ICON_COLORS[color];
+    return <Icon className={`h-5 w-5 ${iconColor}`} />;
   };
   
   const formatDueDate = (date: string | null | undefined) => {
@@ -61,14 +104,29 @@ const TaskItem: React.FC<TaskItemProps> = ({
   };
   
   return (
-    <Card className="bg-white/70 border border-gray-100 shadow-sm hover:shadow transition-all duration-300">
+    <Card 
+      className={`bg-white/70 border border-gray-100 shadow-sm hover:shadow transition-all duration-300 ${
+        highlightedIds?.has(id) ? 'ring-2 ring-primary/30 bg-primary/5' : ''
+      }`}
+    >
       <CardContent className="p-4">
         <div className="flex items-start gap-3">
+          {onSelect && (
+            <Checkbox
+              checked={selectedIds?.has(id) || false}
+              onClick={(e) => {
+                e.preventDefault();
+                onSelect(task, e.shiftKey);
+              }}
+              className="mt-1.5"
+              aria-label={`Select ${title}`}
+            />
+          )}
           <button
             onClick={() => {
-              const newStatus = status === 'completed' 
-                ? 'pending' 
-                : 'completed';
+              const newStatus = isDone 
+                ? getInitialStatus(workflow) 
+                : getCompletedStatus(workflow);
               onStatusChange(id, newStatus);
             }}
             className="mt-1 focus:outline-none focus-visible:ring-2 focus-visible:ring-primary rounded-full"
@@ -79,14 +137,21 @@ const TaskItem: React.FC<TaskItemProps> = ({
           <div className="flex-1 min-w-0">
             <div className="flex justify-between items-start gap-2">
               <div>
-                <h3 className={`font-medium text-balance ${status === 'completed' ? 'line-through text-muted-foreground' : ''}`}>
-                  {title}
+                <h3 
+                  className={`font-medium text-balance ${isDone ? 'line-through text-muted-foreground' : ''}`}
+                >
+                  <Link to={`/tasks/${id}`} className="hover:underline">
+                    {title}
+                  </Link>
                 </h3>
                 {description && (
                   <p className="text-sm text-muted-foreground mt-1 mb-2 text-balance">
                     {description}
                   </p>
                 )}
+                {task.search_snippet && (
+                  <SearchSnippet snippet={task.search_snippet} className="mb-2" />
+                )}
               </div>
               
               <DropdownMenu>
@@ -100,35 +165,39 @@ const TaskItem: React.FC<TaskItemProps> = ({
                     <Pencil className="mr-2 h-4 w-4" />
                     Edit task
                   </DropdownMenuItem>
+                  {onOpenDetails && (
+                    <DropdownMenuItem onClick={() => onOpenDetails(task)}>
+                      <PanelRightOpen className="mr-2 h-4 w-4" />
+                      View details
+                    </DropdownMenuItem>
+                  )}
+                  {onAddSubtask && (
+                    <DropdownMenuItem onClick={() => onAddSubtask(task)}>
+                      <ListPlus className="mr-2 h-4 w-4" />
+                      Add subtask
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem 
-                    onClick={() => onStatusChange(id, 'pending')}
-                    disabled={status === 'pending'}
-                  >
-                    <CircleIcon className="mr-2 h-4 w-4" />
-                    Mark as Pending
-                  </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    onClick={() => onStatusChange(id, 'in_progress')}
-                    disabled={status === 'in_progress'}
-                  >
-                    <Clock className="mr-2 h-4 w-4" />
-                    Mark as In Progress
-                  </DropdownMenuItem>
-                  <DropdownMenuItem 
-                    onClick={() => onStatusChange(id, 'completed')}
-                    disabled={status === 'completed'}
-                  >
-                    <CheckCircle2 className="mr-2 h-4 w-4" />
-                    Mark as Completed
-                  </DropdownMenuItem>
+                  {getAllowedStatuses(workflow, status).map(option => {
+                    const Icon = STATUS_ICONS[option.icon] || CircleIcon;
+                    return (
+                      <DropdownMenuItem 
+                        key={option.key}
+                        onClick={() => onStatusChange(id, option.key)}
+                        disabled={option.key === status}
+                      >
+                        <Icon className="mr-2 h-4 w-4" />
+                        Mark as {option.name}
+                      </DropdownMenuItem>
+                    );
+                  })}
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
                     onClick={() => onDelete(id)} 
                     className="text-red-600 focus:text-red-600"
                   >
                     <Trash2 className="mr-2 h-4 w-4" />
-                    Delete
+                    Move to Trash
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -138,12 +207,34 @@ const TaskItem: React.FC<TaskItemProps> = ({
               <StatusBadge status={status} />
               <PriorityIndicator priority={priority} />
               
-              {category && (
-                <div className="inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium bg-purple-100 text-purple-800 border border-purple-200">
-                  {category}
+              {openBlockers.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onOpenDetails?.(task)}
+                  title={`Blocked by ${openBlockers.map(blocker => blocker.title).join(', ')}`}
+                  className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200 hover:bg-amber-200"
+                >
+                  <Lock className="h-3 w-3" />
+                  <span className="max-w-[12rem] truncate">
+                    {openBlockers.length === 1 ? `Blocked by ${openBlockers[0].title}` : `Blocked by ${openBlockers.length} tasks`}
+                  </span>
+                </button>
+              )}
+              
+              {openDependents.length > 0 && (
+                <div
+                  title={`Blocks ${openDependents.map(dependent => dependent.title).join(', ')}`}
+                  className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200"
+                >
+                  <Link2 className="h-3 w-3" />
+                  Blocks {openDependents.length}
                 </div>
               )}
               
+              {tags.map(tag => (
+                <TagBadge key={tag.id} tag={tag} />
+              ))}
+              
               {due_date && (
                 <div className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200">
                   <Calendar className="h-3 w-3" />
@@ -151,13 +242,83 @@ const TaskItem: React.FC<TaskItemProps> = ({
                 </div>
               )}
               
+              {recurrence && (
+                <div className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-teal-100 text-teal-800 border border-teal-200">
+                  <Repeat className="h-3 w-3" />
+                  {describeRecurrence(recurrence)}
+                </div>
+              )}
+              
               {isAdmin && userEmail && (
                 <div className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-blue-100 text-blue-800 border border-blue-200">
                   <UserIcon className="h-3 w-3" />
                   {userEmail}
                 </div>
               )}
+              
+              {comment_count > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onOpenDetails?.(task)}
+                  className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200 hover:bg-gray-200"
+                >
+                  <MessageSquare className="h-3 w-3" />
+                  {comment_count}
+                </button>
+              )}
+              
+              {attachment_count > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onOpenDetails?.(task)}
+                  className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-800 border border-gray-200 hover:bg-gray-200"
+                >
+                  <Paperclip className="h-3 w-3" />
+                  {attachment_count}
+                </button>
+              )}
+              
+              {assignee_id && (
+                <div className="inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium bg-indigo-100 text-indigo-800 border border-indigo-200">
+                  <UserCheck className="h-3 w-3" />
+                  {userEmails[assignee_id] || 'Assigned'}
+                </div>
+              )}
             </div>
+            
+            {subtasks.length > 0 && (
+              <Collapsible open={showSubtasks} onOpenChange={setShowSubtasks} className="mt-3">
+                <div className="flex items-center gap-3">
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground">
+                      <ChevronRight className={`mr-1 h-3.5 w-3.5 transition-transform ${showSubtasks ? 'rotate-90' : ''}`} />
+                      {completedSubtasks}/{subtasks.length} subtasks
+                    </Button>
+                  </CollapsibleTrigger>
+                  <Progress value={progress} className="h-1.5 flex-1" />
+                </div>
+                <CollapsibleContent className="mt-2 space-y-2 border-l pl-3">
+                  {subtasks.map(subtask => (
+                    <TaskItem
+                      key={subtask.id}
+                      task={subtask}
+                      onStatusChange={onStatusChange}
+                      onDelete={onDelete}
+                      onEdit={onEdit}
+                      onAddSubtask={onAddSubtask}
+                      onOpenDetails={onOpenDetails}
+                      subtaskMap={subtaskMap}
+                      userEmails={userEmails}
+                      userEmail={userEmails[subtask.user_id]}
+                      isAdmin={isAdmin}
+                      selectedIds={selectedIds}
+                      onSelect={onSelect}
+                      highlightedIds={highlightedIds}
+                    />
+                  ))}
+                </CollapsibleContent>
+              </Collapsible>
+            )}
           </div>
         </div>
       </CardContent>
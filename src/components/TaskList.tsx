@@ -1,10 +1,34 @@
 
-import React, { useState, useEffect } from 'react';
-import { PlusIcon, Loader2, SearchIcon, CheckCircle2, CircleIcon, MoreHorizontal, X } from 'lucide-react';
-import { Task, TaskStatus, getTasks, updateTask, deleteTask, getUserProfile, isAdmin } from '@/lib/supabase';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { PlusIcon, Loader2, SearchIcon, CheckCircle2, CircleIcon, MoreHorizontal, X, List, KanbanSquare, UserCheck } from 'lucide-react';
+import { 
+  Task, 
+  TaskStatus, 
+  TaskView, 
+  TaskFilters, 
+  BulkTaskChanges, 
+  TaskChange, 
+  SavedView, 
+  SavedViewQuery, 
+  getSavedViews, 
+  DEFAULT_TASK_SORT, 
+  getAllTasks, 
+  bulkUpdateTasks, 
+  restoreTask, 
+  getUserProfile, 
+  isAdmin, 
+  getUserPreferences, 
+  updateUserPreferences,
+  createNextOccurrence,
+  getCurrentUser,
+  subscribeToTaskChanges
+} from '@/lib/supabase';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Separator } from '@/components/ui/separator';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Toggle } from '@/components/ui/toggle';
+import { Checkbox } from '@/components/ui/checkbox';
 import { StatusBadge, PriorityIndicator, EmptyState, TaskListSkeleton } from './ui-components';
 import { AnimatedContainer } from './ui-components';
 import { Card } from '@/components/ui/card';
@@ -15,20 +39,89 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator
 } from '@/components/ui/dropdown-menu';
+import { format } from 'date-fns';
 import { toast } from 'sonner';
 import TaskForm from './TaskForm';
 import TaskItem from './TaskItem';
+import TaskBoard from './TaskBoard';
+import TaskDetailPanel from './TaskDetailPanel';
 import { supabase } from '@/integrations/supabase/client';
+import { 
+  REALTIME_BATCH_DELAY_MS, 
+  TASK_HIGHLIGHT_DURATION_MS 
+} from '@/lib/constants';
+import TaskFilterMenu from './TaskFilterMenu';
+import { parseSearchQuery } from '@/lib/search';
+import { paramsToViewQuery, viewQueryToParams } from '@/lib/views';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import SavedViewsMenu from './SavedViewsMenu';
+import ExportTasksDialog from './ExportTasksDialog';
+import ImportTasksDialog from './ImportTasksDialog';
+import BulkActionBar from './BulkActionBar';
+import BlockedTaskDialog from './BlockedTaskDialog';
+import QuickAddBar from './QuickAddBar';
+import { isBlockedStatusChange } from '@/lib/dependencies';
+import { canTransition, getCompletedStatus, getStatus, isDoneStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { cacheTasks, removeCachedTasks } from '@/lib/offline';
+import { useSyncStatus } from '@/hooks/use-sync-status';
+import { 
+  useTaskList, 
+  useRefreshTasks, 
+  useUpdateTask, 
+  useDeleteTask, 
+  useTaskCompletion,
+  updateCachedTasks 
+} from '@/hooks/use-tasks';
 
 const TaskList: React.FC = () => {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
   const [showTaskForm, setShowTaskForm] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
+  const [detailTask, setDetailTask] = useState<Task | null>(null);
   const [userEmails, setUserEmails] = useState<Record<string, string>>({});
   const [isUserAdmin, setIsUserAdmin] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [view, setView] = useState<TaskView>('list');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkWorking, setIsBulkWorking] = useState(false);
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  // A status change waiting for the user to confirm it past the task's open blockers
+  const [blockedChange, setBlockedChange] = useState<{ task: Task; status: TaskStatus } | null>(null);
+  // Anchor for shift-click range selection
+  const lastSelectedId = useRef<string | null>(null);
+  // Tasks picked up by "select all", which may not all be loaded into the list
+  const selectAllTasks = useRef<Task[]>([]);
+  const { online, lastSyncedAt } = useSyncStatus();
+  const workflow = useWorkflow();
+  
+  // Restore the user's preferred layout
+  useEffect(() => {
+    const loadPreferences = async () => {
+      const preferences = await getUserPreferences();
+      if (preferences?.task_view) {
+        setView(preferences.task_view);
+      }
+    };
+    
+    loadPreferences();
+  }, []);
+  
+  const handleViewChange = async (value: string) => {
+    // ToggleGroup emits an empty string when the active item is clicked again
+    if (!value) return;
+    
+    const newView = value as TaskView;
+    setView(newView);
+    
+    try {
+      await updateUserPreferences({ task_view: newView });
+    } catch (error) {
+      console.error('Error saving view preference:', error);
+    }
+  };
   
   // Check if the current user is an admin
   useEffect(() => {
@@ -37,24 +130,25 @@ const TaskList: React.FC = () => {
         const adminStatus = await isAdmin();
         setIsUserAdmin(adminStatus);
         
-        // If admin, fetch all user emails for displaying task owners
-        if (adminStatus) {
-          const { data: profiles, error } = await supabase
-            .from('user_profiles')
-            .select('id, email');
-            
-          if (error) {
-            console.error('Error fetching user profiles:', error);
-            return;
-          }
-          
-          const emailMap: Record<string, string> = {};
-          profiles?.forEach(profile => {
-            emailMap[profile.id] = profile.email;
-          });
+        const { data: { user } } = await getCurrentUser();
+        setCurrentUserId(user?.id || null);
+        
+        // Fetch user emails for displaying task owners (admins) and assignees (everyone)
+        const { data: profiles, error } = await supabase
+          .from('user_directory')
+          .select('id, email');
           
-          setUserEmails(emailMap);
+        if (error) {
+          console.error('Error fetching user profiles:', error);
+          return;
         }
+        
+        const emailMap: Record<string, string> = {};
+        profiles?.forEach(profile => {
+          emailMap[profile.id] = profile.email;
+        });
+        
+        setUserEmails(emailMap);
       } catch (error) {
         console.error('Error checking admin status:', error);
       }
@@ -63,56 +157,330 @@ const TaskList: React.FC = () => {
     checkAdminStatus();
   }, []);
   
-  const fetchTasks = async () => {
-    setIsLoading(true);
+  // Search, filters, sort and the active saved view all live in the URL so they can be bookmarked
+  const urlQuery = useMemo(() => paramsToViewQuery(searchParams), [searchParams]);
+  const activeViewId = searchParams.get('view');
+  const { search = '', filters = {}, sort = DEFAULT_TASK_SORT, assignedToMe = false } = urlQuery;
+  
+  // The search box is local while typing and written to the URL once typing pauses
+  const [searchQuery, setSearchQuery] = useState(search);
+  
+  const updateQuery = useCallback((updates: SavedViewQuery) => {
+    setSearchParams(viewQueryToParams({ ...urlQuery, ...updates }, activeViewId), { replace: true });
+  }, [urlQuery, activeViewId, setSearchParams]);
+  
+  useEffect(() => {
+    if (searchQuery === search) return;
+    
+    const timeout = setTimeout(() => updateQuery({ search: searchQuery }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, search, updateQuery]);
+  
+  const { data: savedViews = [] } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: getSavedViews,
+  });
+  
+  const applyView = useCallback((savedView: SavedView | null) => {
+    setSearchQuery(savedView?.query.search || '');
+    setSearchParams(
+      savedView ? viewQueryToParams(savedView.query, savedView.id) : new URLSearchParams(), 
+      { replace: true }
+    );
+  }, [setSearchParams]);
+  
+  // A link carrying only ?view=<id> (e.g. from the pinned views in the navigation) loads that view
+  useEffect(() => {
+    if (!activeViewId || Array.from(searchParams.keys()).length > 1) return;
+    
+    const savedView = savedViews.find(v => v.id === activeViewId);
+    if (savedView) {
+      applyView(savedView);
+    }
+  }, [activeViewId, searchParams, savedViews, applyView]);
+  
+  // Operators typed in the search box (status:, priority:, due:, #tag) take precedence over the filter menu
+  const queryFilters = useMemo<TaskFilters>(() => {
+    const { text, filters: searchFilters } = parseSearchQuery(search, workflow);
+    return {
+      ...filters,
+      ...searchFilters,
+      search: text,
+      assigneeId: assignedToMe ? currentUserId : null,
+    };
+  }, [filters, search, assignedToMe, currentUserId, workflow]);
+  
+  const hasActiveFilters = !!searchQuery || assignedToMe || Object.values(filters).some(Boolean);
+  
+  const { 
+    tasks, 
+    totalCount, 
+    isLoading, 
+    error: fetchError, 
+    hasNextPage, 
+    isFetchingNextPage, 
+    fetchNextPage 
+  } = useTaskList(queryFilters, sort);
+  const refreshTasks = useRefreshTasks();
+  const queryClient = useQueryClient();
+  const updateTaskMutation = useUpdateTask();
+  const deleteTaskMutation = useDeleteTask();
+  const completeTask = useTaskCompletion();
+  
+  useEffect(() => {
+    if (fetchError) {
+      toast.error('Failed to fetch tasks: ' + fetchError.message);
+    }
+  }, [fetchError]);
+  
+  // A new search or filter starts a fresh selection
+  useEffect(() => {
+    setSelectedIds(new Set());
+    selectAllTasks.current = [];
+  }, [queryFilters, sort]);
+  
+  // Once offline changes have synced, reload so the list shows the server's version of them
+  useEffect(() => {
+    if (lastSyncedAt) refreshTasks();
+  }, [lastSyncedAt, refreshTasks]);
+  
+  // Everything that has been on screen stays available offline
+  useEffect(() => {
+    cacheTasks(tasks).catch(error => console.error('Error caching tasks:', error));
+  }, [tasks]);
+  
+  // The realtime handler outlives renders, so it reads the latest list through a ref
+  const tasksRef = useRef(tasks);
+  tasksRef.current = tasks;
+  
+  // Live updates from other tabs and users. The list is refetched with the current search and
+  // filters, so changed tasks that no longer match drop out; the rest are briefly highlighted.
+  // Changes arriving together (e.g. a bulk edit) share one refetch.
+  useEffect(() => {
+    const changedIds = new Set<string>();
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+    
+    const highlightTasks = (taskIds: string[]) => {
+      setHighlightedIds(prevIds => new Set([...prevIds, ...taskIds]));
+      setTimeout(() => {
+        setHighlightedIds(prevIds => new Set([...prevIds].filter(id => !taskIds.includes(id))));
+      }, TASK_HIGHLIGHT_DURATION_MS);
+    };
+    
+    const handleChange = (change: TaskChange) => {
+      const taskId = change.eventType === 'DELETE' ? change.old.id : change.new.id;
+      
+      // Saves made here come back as events too, and the list already has them
+      if (change.eventType !== 'DELETE') {
+        const listed = tasksRef.current.find(task => task.id === taskId);
+        if (listed && listed.updated_at === change.new.updated_at) return;
+      }
+      
+      changedIds.add(taskId);
+      if (!timeout) {
+        timeout = setTimeout(async () => {
+          timeout = null;
+          const taskIds = Array.from(changedIds);
+          changedIds.clear();
+          await refreshTasks();
+          highlightTasks(taskIds);
+        }, REALTIME_BATCH_DELAY_MS);
+      }
+    };
+    
+    const unsubscribe = subscribeToTaskChanges(handleChange);
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, [refreshTasks]);
+  
+  // Infinite scroll: load the next page when the sentinel below the list comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasNextPage || isFetchingNextPage) return;
+    
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        fetchNextPage();
+      }
+    }, { rootMargin: '200px' });
+    
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+  
+  // Group subtasks under their parent so each TaskItem can render its children
+  const subtaskMap = useMemo(() => {
+    const map: Record<string, Task[]> = {};
+    tasks.forEach(task => {
+      if (task.parent_id) {
+        map[task.parent_id] = [...(map[task.parent_id] || []), task];
+      }
+    });
+    return map;
+  }, [tasks]);
+  
+  // Subtasks are shown nested under their parent, unless the parent was filtered out
+  const topLevelTasks = useMemo(() => {
+    const visibleIds = new Set(tasks.map(task => task.id));
+    return tasks.filter(task => !task.parent_id || !visibleIds.has(task.parent_id));
+  }, [tasks]);
+  
+  // Tasks in the order they appear on screen, subtasks right after their parent
+  const displayOrder = useMemo(() => {
+    const order: Task[] = [];
+    const visit = (task: Task) => {
+      order.push(task);
+      (subtaskMap[task.id] || []).forEach(visit);
+    };
+    topLevelTasks.forEach(visit);
+    return order;
+  }, [topLevelTasks, subtaskMap]);
+  
+  const handleSelect = (task: Task, shiftKey: boolean) => {
+    const anchorIndex = displayOrder.findIndex(t => t.id === lastSelectedId.current);
+    const index = displayOrder.findIndex(t => t.id === task.id);
+    
+    setSelectedIds(prevIds => {
+      const nextIds = new Set(prevIds);
+      const select = !prevIds.has(task.id);
+      
+      // Shift-click gives every task between the anchor and this one the clicked task's new state
+      const range = shiftKey && anchorIndex !== -1
+        ? displayOrder.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+        : [task];
+      range.forEach(t => select ? nextIds.add(t.id) : nextIds.delete(t.id));
+      
+      return nextIds;
+    });
+    lastSelectedId.current = task.id;
+  };
+  
+  // Selects every task matching the current search and filters, including pages not loaded yet
+  const handleSelectAll = async () => {
+    setIsBulkWorking(true);
     try {
-      const { data, error } = await getTasks();
+      const allTasks = await getAllTasks({ filters: queryFilters, sort });
+      selectAllTasks.current = allTasks;
+      setSelectedIds(new Set(allTasks.map(task => task.id)));
+    } catch (error) {
+      toast.error('Failed to select tasks: ' + (error as Error).message);
+    } finally {
+      setIsBulkWorking(false);
+    }
+  };
+  
+  const handleBulkApply = async (changes: BulkTaskChanges) => {
+    const taskIds = Array.from(selectedIds);
+    setIsBulkWorking(true);
+    
+    try {
+      const { data, error } = await bulkUpdateTasks(taskIds, changes);
       if (error) throw error;
       
-      // Ensure data is properly typed as Task[]
-      const typedData = data ? data.map(item => ({
-        ...item,
-        status: item.status as TaskStatus
-      })) : [];
+      const succeededIds = data.filter(result => result.succeeded).map(result => result.task_id);
+      const failures = data.filter(result => !result.succeeded);
+      const noun = (count: number) => `${count} ${count === 1 ? 'task' : 'tasks'}`;
       
-      setTasks(typedData);
-      setFilteredTasks(typedData);
-    } catch (error: any) {
-      toast.error('Failed to fetch tasks: ' + error.message);
+      if (failures.length === 0) {
+        toast.success(changes.delete ? `Moved ${noun(succeededIds.length)} to Trash` : `Updated ${noun(succeededIds.length)}`, {
+          action: changes.delete ? { label: 'Undo', onClick: () => handleUndoBulkDelete(succeededIds) } : undefined,
+        });
+      } else {
+        const reasons = Array.from(new Set(failures.map(result => result.message))).join('; ');
+        toast.warning(`${changes.delete ? 'Moved' : 'Updated'} ${succeededIds.length} of ${noun(data.length)}`, {
+          description: `${failures.length} failed: ${reasons}`,
+        });
+      }
+      
+      // Completed tasks schedule their next occurrence and complete their parents, as they do one
+      // at a time. One after another, so subtasks of the same parent don't both complete it.
+      if (changes.status && isDoneStatus(workflow, changes.status)) {
+        const succeeded = new Set(succeededIds);
+        const knownTasks = new Map([...selectAllTasks.current, ...tasks].map(task => [task.id, task]));
+        const completed = Array.from(knownTasks.values()).filter(task =>
+          succeeded.has(task.id) && !isDoneStatus(workflow, task.status)
+        );
+        for (const task of completed) await completeTask(task);
+      }
+      
+      if (changes.delete) {
+        setSelectedIds(new Set());
+        await removeCachedTasks(succeededIds);
+      }
+      refreshTasks();
+    } catch (error) {
+      toast.error('Bulk update failed: ' + (error as Error).message);
     } finally {
-      setIsLoading(false);
+      setIsBulkWorking(false);
     }
   };
   
-  useEffect(() => {
-    fetchTasks();
-  }, []);
-  
-  useEffect(() => {
-    if (searchQuery) {
-      const filtered = tasks.filter(task => 
-        task.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        (task.description && task.description.toLowerCase().includes(searchQuery.toLowerCase()))
-      );
-      setFilteredTasks(filtered);
-    } else {
-      setFilteredTasks(tasks);
+  const handleUndoBulkDelete = async (taskIds: string[]) => {
+    try {
+      const results = await Promise.all(taskIds.map(taskId => restoreTask(taskId)));
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+      
+      toast.success('Tasks restored');
+      refreshTasks();
+    } catch (error) {
+      toast.error('Failed to restore tasks: ' + (error as Error).message);
     }
-  }, [searchQuery, tasks]);
+  };
   
-  const handleStatusChange = async (taskId: string, newStatus: TaskStatus) => {
+  const handleStatusChange = async (taskId: string, newStatus: TaskStatus, overrideBlockers = false) => {
     try {
-      const { data, error } = await updateTask(taskId, { status: newStatus });
-      if (error) throw error;
+      const changedTask = tasks.find(task => task.id === taskId);
+      
+      if (changedTask && !canTransition(workflow, changedTask.status, newStatus)) {
+        toast.error(`Tasks can't move from ${getStatus(workflow, changedTask.status).name} to ${getStatus(workflow, newStatus).name}`);
+        return;
+      }
+      
+      if (!overrideBlockers && changedTask && isBlockedStatusChange(changedTask, newStatus, workflow)) {
+        setBlockedChange({ task: changedTask, status: newStatus });
+        return;
+      }
+      
+      // The list shows the new status right away and rolls back if saving fails.
+      // Offline, the change is queued and sent once the connection is back.
+      await updateTaskMutation.mutateAsync({ task: changedTask, changes: { status: newStatus } });
+      
+      toast.success(`Task marked as ${getStatus(workflow, newStatus).name}`);
       
-      // Update the task in the local state
-      setTasks(prevTasks => 
-        prevTasks.map(task => 
-          task.id === taskId ? { ...task, status: newStatus } : task
-        )
-      );
+      // Completing a recurring task schedules its next occurrence. Offline, that happens when the change syncs.
+      const isDone = isDoneStatus(workflow, newStatus);
+      if (online && isDone && changedTask?.recurrence && !changedTask.next_occurrence_id) {
+        const nextTask = await createNextOccurrence(changedTask);
+        if (nextTask) {
+          refreshTasks();
+          toast.success(`Next occurrence scheduled for ${format(new Date(nextTask.due_date), 'PPP')}`);
+        }
+      }
+      
+      // Complete the parent when its last open subtask is done, if the parent opted in
+      // and isn't blocked itself
+      const parent = changedTask?.parent_id 
+        ? tasks.find(task => task.id === changedTask.parent_id) 
+        : undefined;
       
-      toast.success(`Task marked as ${newStatus.replace('_', ' ')}`);
+      const completedStatus = getCompletedStatus(workflow);
+      if (
+        isDone && completedStatus && parent?.auto_complete && !isDoneStatus(workflow, parent.status) &&
+        canTransition(workflow, parent.status, completedStatus) && !isBlockedStatusChange(parent, completedStatus, workflow)
+      ) {
+        const allSiblingsDone = (subtaskMap[parent.id] || []).every(sibling => 
+          sibling.id === taskId || isDoneStatus(workflow, sibling.status)
+        );
+        
+        if (allSiblingsDone) {
+          await handleStatusChange(parent.id, completedStatus);
+        }
+      }
     } catch (error: any) {
       toast.error('Failed to update task: ' + error.message);
     }
@@ -120,63 +488,73 @@ const TaskList: React.FC = () => {
   
   const handleTaskDelete = async (taskId: string) => {
     try {
-      const { error } = await deleteTask(taskId);
-      if (error) throw error;
+      // Subtasks go to the Trash with their parent and leave the list with it
+      await deleteTaskMutation.mutateAsync(tasks.find(task => task.id === taskId));
       
-      // Remove the task from the local state
-      setTasks(prevTasks => prevTasks.filter(task => task.id !== taskId));
-      toast.success('Task deleted successfully');
+      // Restoring needs the server, so offline deletes can't be undone from here
+      toast.success('Task moved to Trash', {
+        action: online ? {
+          label: 'Undo',
+          onClick: () => handleUndoDelete(taskId),
+        } : undefined,
+      });
     } catch (error: any) {
       toast.error('Failed to delete task: ' + error.message);
     }
   };
   
+  const handleUndoDelete = async (taskId: string) => {
+    try {
+      const { error } = await restoreTask(taskId);
+      if (error) throw error;
+      
+      refreshTasks();
+      toast.success('Task restored');
+    } catch (error) {
+      toast.error('Failed to restore task: ' + (error as Error).message);
+    }
+  };
+  
   const handleEditTask = (task: Task) => {
     setEditingTask(task);
+    setParentTask(null);
     setShowTaskForm(true);
   };
   
-  const handleTaskCreated = (newTask: Task) => {
-    setTasks(prevTasks => [newTask, ...prevTasks]);
+  const handleAddSubtask = (parent: Task) => {
+    setEditingTask(null);
+    setParentTask(parent);
+    setShowTaskForm(true);
+  };
+  
+  const closeTaskForm = () => {
     setShowTaskForm(false);
+    setEditingTask(null);
+    setParentTask(null);
   };
   
-  const handleTaskUpdated = (updatedTask: Task) => {
-    setTasks(prevTasks => 
-      prevTasks.map(task => task.id === updatedTask.id ? updatedTask : task)
+  const handleCommentCountChange = (taskId: string, count: number) => {
+    updateCachedTasks(queryClient, cachedTasks => 
+      cachedTasks.map(task => task.id === taskId ? { ...task, comment_count: count } : task)
     );
-    setEditingTask(null);
+  };
+  
+  const handleAttachmentCountChange = (taskId: string, count: number) => {
+    updateCachedTasks(queryClient, cachedTasks => 
+      cachedTasks.map(task => task.id === taskId ? { ...task, attachment_count: count } : task)
+    );
+  };
+  
+  // TaskForm saves through the task mutations, which already update the list
+  const handleTaskCreated = () => {
     setShowTaskForm(false);
+    setParentTask(null);
   };
   
-  const TaskFormModal = () => (
-    <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
-      <div className="w-full max-w-md animate-scale-in" onClick={(e) => e.stopPropagation()}>
-        <Card className="shadow-lg border-0">
-          <div className="flex justify-between items-center p-4 border-b">
-            <h2 className="text-lg font-medium">
-              {editingTask ? 'Edit Task' : 'Create New Task'}
-            </h2>
-            <Button variant="ghost" size="icon" onClick={() => {
-              setShowTaskForm(false);
-              setEditingTask(null);
-            }}>
-              <X className="h-4 w-4" />
-            </Button>
-          </div>
-          <TaskForm 
-            task={editingTask}
-            onTaskCreated={handleTaskCreated}
-            onTaskUpdated={handleTaskUpdated}
-            onCancel={() => {
-              setShowTaskForm(false);
-              setEditingTask(null);
-            }}
-          />
-        </Card>
-      </div>
-    </div>
-  );
+  const handleTaskUpdated = () => {
+    setEditingTask(null);
+    setShowTaskForm(false);
+  };
   
   return (
     <div className="space-y-6">
@@ -185,7 +563,8 @@ const TaskList: React.FC = () => {
           <SearchIcon className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
           <Input
             type="search"
-            placeholder="Search tasks..."
+            placeholder="Search tasks, or try status:done #tag"
+            title="Supports status:, priority:, due:<yyyy-mm-dd and #tag"
             className="pl-8"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
@@ -201,29 +580,88 @@ const TaskList: React.FC = () => {
             </Button>
           )}
         </div>
-        <Button onClick={() => {
-          setEditingTask(null);
-          setShowTaskForm(true);
-        }}>
-          <PlusIcon className="h-4 w-4 mr-2" />
-          Add Task
-        </Button>
+        <div className="flex flex-wrap items-center gap-2">
+          <SavedViewsMenu
+            activeViewId={activeViewId}
+            currentQuery={urlQuery}
+            currentUserId={currentUserId}
+            onApply={applyView}
+          />
+          <TaskFilterMenu
+            filters={filters}
+            onFiltersChange={(newFilters) => updateQuery({ filters: newFilters })}
+            sort={sort}
+            onSortChange={(newSort) => updateQuery({ sort: newSort })}
+            userEmails={userEmails}
+            isAdmin={isUserAdmin}
+          />
+          <Toggle
+            size="sm"
+            variant="outline"
+            pressed={assignedToMe}
+            onPressedChange={(pressed) => updateQuery({ assignedToMe: pressed })}
+            aria-label="Show tasks assigned to me"
+          >
+            <UserCheck className="h-4 w-4 mr-1" />
+            Assigned to me
+          </Toggle>
+          <ExportTasksDialog
+            filters={queryFilters}
+            sort={sort}
+            count={totalCount}
+            userEmails={userEmails}
+          />
+          <ImportTasksDialog onImported={refreshTasks} />
+          <ToggleGroup type="single" value={view} onValueChange={handleViewChange}>
+            <ToggleGroupItem value="list" aria-label="List view" size="sm">
+              <List className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="board" aria-label="Board view" size="sm">
+              <KanbanSquare className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Button onClick={() => {
+            setEditingTask(null);
+            setParentTask(null);
+            setShowTaskForm(true);
+          }}>
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Task
+          </Button>
+        </div>
       </div>
       
+      <QuickAddBar />
+      
+      {!isLoading && tasks.length > 0 && (
+        <div className="flex items-center gap-2 px-4 text-sm text-muted-foreground">
+          <Checkbox
+            id="select-all-tasks"
+            checked={selectedIds.size === 0 ? false : selectedIds.size >= totalCount ? true : 'indeterminate'}
+            onCheckedChange={() => selectedIds.size > 0 ? setSelectedIds(new Set()) : handleSelectAll()}
+            disabled={isBulkWorking}
+          />
+          <label htmlFor="select-all-tasks" className="cursor-pointer">
+            {selectedIds.size > 0 ? 'Clear selection' : `Select all ${totalCount}`}
+          </label>
+        </div>
+      )}
+      
       <AnimatedContainer className="space-y-3">
         {isLoading ? (
           <TaskListSkeleton />
-        ) : filteredTasks.length === 0 ? (
+        ) : tasks.length === 0 ? (
           <EmptyState
-            title={searchQuery ? "No tasks found" : "No tasks yet"}
+            title={hasActiveFilters ? "No tasks found" : "No tasks yet"}
             description={
-              searchQuery 
-                ? "Try a different search term or clear the search"
+              hasActiveFilters
+                ? "Try a different search term or clear the filters"
                 : "Create your first task to get started"
             }
             action={
               <Button onClick={() => {
                 setEditingTask(null);
+                setParentTask(null);
                 setShowTaskForm(true);
               }}>
                 <PlusIcon className="h-4 w-4 mr-2" />
@@ -231,8 +669,24 @@ const TaskList: React.FC = () => {
               </Button>
             }
           />
+        ) : view === 'board' ? (
+          <TaskBoard
+            tasks={topLevelTasks}
+            onStatusChange={handleStatusChange}
+            onDelete={handleTaskDelete}
+            onEdit={handleEditTask}
+            onAddSubtask={handleAddSubtask}
+            onOpenDetails={setDetailTask}
+            subtaskMap={subtaskMap}
+            userEmails={userEmails}
+            isAdmin={isUserAdmin}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+            highlightedIds={highlightedIds}
+            hasMore={hasNextPage}
+          />
         ) : (
-          filteredTasks.map((task, index) => (
+          topLevelTasks.map((task, index) => (
             <AnimatedContainer 
               key={task.id} 
               delay={index * 50}
@@ -243,15 +697,82 @@ const TaskList: React.FC = () => {
                 onStatusChange={handleStatusChange}
                 onDelete={handleTaskDelete}
                 onEdit={handleEditTask}
+                onAddSubtask={handleAddSubtask}
+                onOpenDetails={setDetailTask}
+                subtaskMap={subtaskMap}
+                userEmails={userEmails}
                 userEmail={userEmails[task.user_id]}
                 isAdmin={isUserAdmin}
+                selectedIds={selectedIds}
+                onSelect={handleSelect}
+                highlightedIds={highlightedIds}
               />
             </AnimatedContainer>
           ))
         )}
       </AnimatedContainer>
       
-      {showTaskForm && <TaskFormModal />}
+      {!isLoading && tasks.length > 0 && (
+        <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-2 text-xs text-muted-foreground">
+          {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin" />}
+          <span>Showing {tasks.length} of {Math.max(totalCount, tasks.length)} tasks</span>
+        </div>
+      )}
+      
+      {selectedIds.size > 0 && (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          matchingCount={totalCount}
+          onSelectAll={handleSelectAll}
+          onClear={() => setSelectedIds(new Set())}
+          onApply={handleBulkApply}
+          isWorking={isBulkWorking}
+          isAdmin={isUserAdmin}
+          userEmails={userEmails}
+        />
+      )}
+      
+      {showTaskForm && (
+        <div className="fixed inset-0 bg-black/30 backdrop-blur-sm z-50 flex items-center justify-center p-4 animate-fade-in">
+          <div className="w-full max-w-md animate-scale-in" onClick={(e) => e.stopPropagation()}>
+            <Card className="shadow-lg border-0">
+              <div className="flex justify-between items-center p-4 border-b">
+                <h2 className="text-lg font-medium">
+                  {editingTask ? 'Edit Task' : parentTask ? 'Add Subtask' : 'Create New Task'}
+                </h2>
+                <Button variant="ghost" size="icon" onClick={closeTaskForm}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <TaskForm 
+                task={editingTask}
+                parentTask={parentTask}
+                onTaskCreated={handleTaskCreated}
+                onTaskUpdated={handleTaskUpdated}
+                onCancel={closeTaskForm}
+              />
+            </Card>
+          </div>
+        </div>
+      )}
+      
+      <BlockedTaskDialog
+        task={blockedChange?.task ?? null}
+        status={blockedChange?.status ?? null}
+        onConfirm={() => {
+          handleStatusChange(blockedChange.task.id, blockedChange.status, true);
+          setBlockedChange(null);
+        }}
+        onCancel={() => setBlockedChange(null)}
+      />
+      
+      <TaskDetailPanel
+        task={detailTask}
+        onClose={() => setDetailTask(null)}
+        userEmails={userEmails}
+        onCommentCountChange={handleCommentCountChange}
+        onAttachmentCountChange={handleAttachmentCountChange}
+      />
     </div>
   );
 };
@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Task } from '@/lib/supabase';
+import { describeRecurrence } from '@/lib/recurrence';
+import {
+  MERGE_FIELDS,
+  MergeChoice,
+  MergeField,
+  fieldDiffers,
+  mergeTaskVersions
+} from '@/lib/conflicts';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { PriorityIndicator, StatusBadge, TagBadge } from './ui-components';
+
+interface TaskMergeDialogProps {
+  open: boolean;
+  // The task as it was when editing started
+  base: Task;
+  // What the editor tried to save
+  local: Task;
+  // The task as someone else saved it in the meantime
+  server: Task;
+  userEmails?: Record<string, string>;
+  isSaving?: boolean;
+  onResolve: (merged: Task) => void;
+  onCancel: () => void;
+}
+
+const renderValue = (task: Task, field: MergeField, userEmails: Record<string, string>) => {
+  const empty = <span className="text-muted-foreground">None</span>;
+
+  switch (field) {
+    case 'status':
+      return <StatusBadge status={task.status} />;
+    case 'priority':
+      return <PriorityIndicator priority={task.priority} />;
+    case 'due_date':
+      return task.due_date ? format(new Date(task.due_date), 'PPP') : empty;
+    case 'assignee_id':
+      return task.assignee_id ? userEmails[task.assignee_id] || 'Unknown user' : 'Unassigned';
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : 'Does not repeat';
+    case 'auto_complete':
+      return task.auto_complete ? 'On' : 'Off';
+    case 'tags':
+      return task.tags?.length ? (
+        <span className="flex flex-wrap gap-1">
+          {task.tags.map(tag => <TagBadge key={tag.id} tag={tag} />)}
+        </span>
+      ) : empty;
+    default:
+      return task[field] ? <span className="whitespace-pre-wrap line-clamp-4">{task[field]}</span> : empty;
+  }
+};
+
+const TaskMergeDialog: React.FC<TaskMergeDialogProps> = ({
+  open,
+  base,
+  local,
+  server,
+  userEmails = {},
+  isSaving = false,
+  onResolve,
+  onCancel,
+}) => {
+  const fields = MERGE_FIELDS.filter(({ key }) => fieldDiffers(local, server, key));
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>({});
+
+  // Fields only the other person changed default to their value, the rest to ours
+  useEffect(() => {
+    const defaults: Partial<Record<MergeField, MergeChoice>> = {};
+    MERGE_FIELDS.forEach(({ key }) => {
+      defaults[key] = fieldDiffers(local, base, key) ? 'mine' : 'theirs';
+    });
+    setChoices(defaults);
+  }, [base, local, server]);
+
+  const chooseAll = (choice: MergeChoice) => {
+    setChoices(Object.fromEntries(MERGE_FIELDS.map(({ key }) => [key, choice])));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSaving && onCancel()}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>This task was changed while you were editing</DialogTitle>
+          <DialogDescription>
+            Someone saved it {server.updated_at ? formatDistanceToNow(new Date(server.updated_at), { addSuffix: true }) : 'recently'}.
+            Choose which version to keep for each field that differs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields.map(({ key, label }) => (
+            <div key={key} className="space-y-2">
+              <div className="flex items-baseline justify-between gap-2">
+                <Label>{label}</Label>
+                {!fieldDiffers(local, base, key) && (
+                  <span className="text-xs text-muted-foreground">You didn't change this</span>
+                )}
+              </div>
+              <RadioGroup
+                value={choices[key]}
+                onValueChange={(value) => setChoices(prevChoices => ({ ...prevChoices, [key]: value as MergeChoice }))}
+                className="grid grid-cols-2 gap-2"
+              >
+                {(['mine', 'theirs'] as const).map(side => (
+                  <Label
+                    key={side}
+                    htmlFor={`merge-${key}-${side}`}
+                    className={cn(
+                      'flex cursor-pointer items-start gap-2 rounded-md border p-3 font-normal transition-colors',
+                      choices[key] === side ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    )}
+                  >
+                    <RadioGroupItem value={side} id={`merge-${key}-${side}`} className="mt-0.5" />
+                    <span className="min-w-0 flex-1 space-y-1">
+                      <span className="block text-xs text-muted-foreground">
+                        {side === 'mine' ? 'Yours' : 'Theirs'}
+                      </span>
+                      <span className="block break-words text-sm">
+                        {renderValue(side === 'mine' ? local : server, key, userEmails)}
+                      </span>
+                    </span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('mine')} disabled={isSaving}>
+              Keep all mine
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => chooseAll('theirs')} disabled={isSaving}>
+              Keep all theirs
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={() => onResolve(mergeTaskVersions(local, server, choices))} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save merged task
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskMergeDialog;
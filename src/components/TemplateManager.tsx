@@ -0,0 +1,179 @@
+import React, { useState, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Trash2 } from 'lucide-react';
+import {
+  TaskTemplate,
+  getCurrentUser,
+  getTaskTemplates,
+  updateTaskTemplate,
+  deleteTaskTemplate,
+  isAdmin
+} from '@/lib/supabase';
+import { countTemplateSubtasks } from '@/lib/templates';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+
+const TemplateManager = () => {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isUserAdmin, setIsUserAdmin] = useState(false);
+  const [templateToDelete, setTemplateToDelete] = useState<TaskTemplate | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['task-templates'],
+    queryFn: getTaskTemplates,
+  });
+
+  useEffect(() => {
+    const loadUser = async () => {
+      try {
+        const { data } = await getCurrentUser();
+        setCurrentUserId(data.user?.id ?? null);
+        setIsUserAdmin(await isAdmin());
+      } catch (error) {
+        console.error('Error loading user:', error);
+      }
+    };
+
+    loadUser();
+  }, []);
+
+  // Organization templates stay read-only for everyone but admins
+  const canEdit = (template: TaskTemplate) =>
+    template.user_id === currentUserId || (template.shared && isUserAdmin);
+
+  const handleUpdate = async (template: TaskTemplate, updates: Partial<Pick<TaskTemplate, 'name' | 'shared'>>) => {
+    if (updates.name !== undefined && (!updates.name.trim() || updates.name.trim() === template.name)) {
+      return;
+    }
+
+    try {
+      await updateTaskTemplate(template.id, updates);
+      queryClient.invalidateQueries({ queryKey: ['task-templates'] });
+      toast.success(
+        updates.shared === undefined ? 'Template updated'
+          : updates.shared ? 'Template published to the organization'
+          : 'Template is now private'
+      );
+    } catch (error) {
+      toast.error('Failed to update template: ' + (error as Error).message);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      await deleteTaskTemplate(templateToDelete.id);
+      queryClient.invalidateQueries({ queryKey: ['task-templates'] });
+      toast.success('Template deleted');
+    } catch (error) {
+      toast.error('Failed to delete template');
+    } finally {
+      setTemplateToDelete(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Task templates</CardTitle>
+        <CardDescription>
+          Templates you can start new tasks from. Save a task as a template from its page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            You have no templates yet.
+          </p>
+        ) : (
+          templates.map(template => {
+            const subtaskCount = countTemplateSubtasks(template.content);
+            return (
+              <div key={template.id} className="flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-[10rem] space-y-1">
+                  <Input
+                    key={template.name}
+                    defaultValue={template.name}
+                    className="h-8"
+                    disabled={!canEdit(template)}
+                    onBlur={(e) => handleUpdate(template, { name: e.target.value })}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {subtaskCount > 0 ? `${subtaskCount} ${subtaskCount === 1 ? 'subtask' : 'subtasks'}` : 'No subtasks'}
+                    {template.user_id !== currentUserId && template.owner && ` · by ${template.owner.email}`}
+                  </p>
+                </div>
+                {template.shared && <Badge variant="secondary">Organization</Badge>}
+                {isUserAdmin && canEdit(template) && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`template-shared-${template.id}`}
+                      checked={template.shared}
+                      onCheckedChange={(shared) => handleUpdate(template, { shared })}
+                    />
+                    <Label htmlFor={`template-shared-${template.id}`} className="font-normal">Publish</Label>
+                  </div>
+                )}
+                {canEdit(template) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-red-600"
+                    onClick={() => setTemplateToDelete(template)}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete template</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{templateToDelete?.name}"? Tasks already created from it are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default TemplateManager;
@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { addDays, differenceInCalendarDays, formatDistanceToNow } from 'date-fns';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import {
+  Task,
+  getTrashedTasks,
+  restoreTask,
+  purgeTasks,
+  getUserPreferences,
+  updateUserPreferences,
+  toTask
+} from '@/lib/supabase';
+import { DEFAULT_TRASH_RETENTION_DAYS, TRASH_RETENTION_OPTIONS } from '@/lib/constants';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { StatusBadge, EmptyState, TaskListSkeleton } from './ui-components';
+
+const TrashList = () => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  // A single task to purge, or 'all' when emptying the Trash
+  const [purgeTarget, setPurgeTarget] = useState<Task | 'all' | null>(null);
+
+  useEffect(() => {
+    const fetchTrash = async () => {
+      setIsLoading(true);
+      try {
+        const [{ data, error }, preferences] = await Promise.all([
+          getTrashedTasks(),
+          getUserPreferences(),
+        ]);
+        if (error) throw error;
+
+        setTasks(data.map(toTask));
+        if (preferences?.trash_retention_days) {
+          setRetentionDays(preferences.trash_retention_days);
+        }
+      } catch (error) {
+        toast.error('Failed to load Trash: ' + (error as Error).message);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTrash();
+  }, []);
+
+  // Subtasks trashed together with their parent are restored and purged with it,
+  // so they are listed under the parent rather than on their own
+  const { topLevelTasks, subtaskCounts } = useMemo(() => {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const counts: Record<string, number> = {};
+    const topLevel: Task[] = [];
+
+    tasks.forEach(task => {
+      let root = task;
+      while (root.parent_id && byId.get(root.parent_id)?.deleted_at === task.deleted_at) {
+        root = byId.get(root.parent_id);
+      }
+
+      if (root === task) {
+        topLevel.push(task);
+      } else {
+        counts[root.id] = (counts[root.id] || 0) + 1;
+      }
+    });
+
+    return { topLevelTasks: topLevel, subtaskCounts: counts };
+  }, [tasks]);
+
+  // Removes a trashed task and everything that was trashed with it from the list
+  const removeWithSubtasks = (root: Task) => {
+    setTasks(prevTasks => {
+      const removedIds = new Set([root.id]);
+      let size = 0;
+      while (size !== removedIds.size) {
+        size = removedIds.size;
+        prevTasks.forEach(task => {
+          if (task.parent_id && removedIds.has(task.parent_id) && task.deleted_at === root.deleted_at) {
+            removedIds.add(task.id);
+          }
+        });
+      }
+      return prevTasks.filter(task => !removedIds.has(task.id));
+    });
+  };
+
+  const handleRestore = async (task: Task) => {
+    try {
+      const { data, error } = await restoreTask(task.id);
+      if (error) throw error;
+
+      // Includes any trashed parents that came back with it
+      const restoredIds = new Set(data.map(row => row.id));
+      setTasks(prevTasks => prevTasks.filter(prevTask => !restoredIds.has(prevTask.id)));
+      toast.success('Task restored');
+    } catch (error) {
+      toast.error('Failed to restore task: ' + (error as Error).message);
+    }
+  };
+
+  const confirmPurge = async () => {
+    if (!purgeTarget) return;
+
+    const targets = purgeTarget === 'all' ? topLevelTasks : [purgeTarget];
+    try {
+      const { error } = await purgeTasks(targets.map(task => task.id));
+      if (error) throw error;
+
+      if (purgeTarget === 'all') {
+        setTasks([]);
+        toast.success('Trash emptied');
+      } else {
+        removeWithSubtasks(purgeTarget);
+        toast.success('Task permanently deleted');
+      }
+    } catch (error) {
+      toast.error('Failed to delete permanently: ' + (error as Error).message);
+    } finally {
+      setPurgeTarget(null);
+    }
+  };
+
+  const handleRetentionChange = async (value: string) => {
+    const days = parseInt(value);
+    setRetentionDays(days);
+
+    try {
+      await updateUserPreferences({ trash_retention_days: days });
+      toast.success(`Tasks in the Trash will be deleted after ${days} days`);
+    } catch (error) {
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const getDaysLeft = (task: Task) =>
+    Math.max(0, differenceInCalendarDays(addDays(new Date(task.deleted_at), retentionDays), new Date()));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <span>Delete permanently after</span>
+          <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          variant="outline"
+          className="text-red-600"
+          disabled={topLevelTasks.length === 0}
+          onClick={() => setPurgeTarget('all')}
+        >
+          <Trash2 className="mr-2 h-4 w-4" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <TaskListSkeleton />
+      ) : topLevelTasks.length === 0 ? (
+        <EmptyState
+          title="Trash is empty"
+          description="Deleted tasks appear here until they are restored or purged"
+          icon={Trash2}
+        />
+      ) : (
+        <div className="space-y-3">
+          {topLevelTasks.map(task => (
+            <Card key={task.id} className="flex items-center gap-4 p-4">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="truncate font-medium">{task.title}</p>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                  <StatusBadge status={task.status} />
+                  <span>Deleted {formatDistanceToNow(new Date(task.deleted_at), { addSuffix: true })}</span>
+                  <span>· Purged in {getDaysLeft(task)} days</span>
+                  {subtaskCounts[task.id] > 0 && (
+                    <span>· {subtaskCounts[task.id]} subtask{subtaskCounts[task.id] === 1 ? '' : 's'}</span>
+                  )}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => handleRestore(task)}>
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restore
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-red-600"
+                onClick={() => setPurgeTarget(task)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!purgeTarget} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{purgeTarget === 'all' ? 'Empty Trash' : 'Delete permanently'}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === 'all'
+                ? 'Permanently delete every task in the Trash?'
+                : `Permanently delete "${purgeTarget?.title}"?`}
+              {' '}Subtasks, comments and attachments are deleted too. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmPurge} className="bg-red-600 hover:bg-red-700">
+              Delete permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default TrashList;
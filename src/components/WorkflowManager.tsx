@@ -0,0 +1,339 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  StatusCategory,
+  WorkflowStatus,
+  createWorkflowStatus,
+  updateWorkflowStatus,
+  deleteWorkflowStatus,
+  setStatusTransition
+} from '@/lib/supabase';
+import { ICON_COLORS, STATUS_ICONS, StatusIcon, TAG_COLORS, TagColor } from '@/lib/constants';
+import { canTransition, toStatusKey } from '@/lib/workflow';
+import { useWorkflow, workflowKey } from '@/hooks/use-workflow';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { StatusBadge } from './ui-components';
+
+const CATEGORY_LABELS: Record<StatusCategory, string> = {
+  open: 'Open',
+  done: 'Done',
+};
+
+const WorkflowManager = () => {
+  const workflow = useWorkflow();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [newCategory, setNewCategory] = useState<StatusCategory>('open');
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusToDelete, setStatusToDelete] = useState<WorkflowStatus | null>(null);
+  const { statuses } = workflow;
+
+  // Runs a change and reloads the workflow everywhere it is shown
+  const save = async (change: () => Promise<unknown>, failure: string, success?: string) => {
+    setIsSaving(true);
+    try {
+      await change();
+      if (success) toast.success(success);
+    } catch (error) {
+      toast.error(`${failure}: ${(error as Error).message}`);
+    } finally {
+      await queryClient.invalidateQueries({ queryKey: workflowKey });
+      setIsSaving(false);
+    }
+  };
+
+  // Tasks always need somewhere to start and somewhere to finish
+  const isLastOfCategory = (status: WorkflowStatus) =>
+    statuses.filter(other => other.category === status.category).length === 1;
+
+  const handleUpdate = (status: WorkflowStatus, updates: Partial<Omit<WorkflowStatus, 'key'>>) => {
+    if (updates.name !== undefined && (!updates.name.trim() || updates.name.trim() === status.name)) {
+      return;
+    }
+    if (updates.category && updates.category !== status.category && isLastOfCategory(status)) {
+      toast.error(`The workflow needs at least one ${CATEGORY_LABELS[status.category].toLowerCase()} status`);
+      return;
+    }
+
+    const changes = updates.name !== undefined ? { ...updates, name: updates.name.trim() } : updates;
+    save(() => updateWorkflowStatus(status.key, changes), 'Failed to update status');
+  };
+
+  // Swaps a status with its neighbour and renumbers the rest so positions stay unique
+  const handleMove = (index: number, offset: number) => {
+    const ordered = [...statuses];
+    [ordered[index], ordered[index + offset]] = [ordered[index + offset], ordered[index]];
+
+    save(
+      () => Promise.all(ordered
+        .map((status, position) => ({ status, position }))
+        .filter(({ status, position }) => status.position !== position)
+        .map(({ status, position }) => updateWorkflowStatus(status.key, { position }))),
+      'Failed to reorder statuses'
+    );
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    const key = toStatusKey(name);
+    if (!key) {
+      toast.error('Status names need at least one letter or number');
+      return;
+    }
+
+    save(async () => {
+      await createWorkflowStatus({
+        key,
+        name,
+        color: 'gray',
+        icon: newCategory === 'done' ? 'check' : 'circle',
+        category: newCategory,
+        position: statuses.length,
+      });
+      setNewName('');
+    }, 'Failed to add status', 'Status added');
+  };
+
+  const confirmDelete = () => {
+    if (!statusToDelete) return;
+
+    save(() => deleteWorkflowStatus(statusToDelete.key), 'Failed to delete status', 'Status deleted');
+    setStatusToDelete(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Statuses</CardTitle>
+          <CardDescription>
+            The statuses tasks move through, in the order they appear on the board. Tasks in a done
+            status count as finished.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {statuses.map((status, index) => (
+            <div key={status.key} className="flex flex-wrap items-center gap-3">
+              <div className="w-32">
+                <StatusBadge status={status.key} />
+              </div>
+              <Input
+                key={status.name}
+                defaultValue={status.name}
+                className="h-8 flex-1 min-w-[8rem]"
+                onBlur={(e) => handleUpdate(status, { name: e.target.value })}
+              />
+              <Select
+                value={status.color}
+                onValueChange={(value) => handleUpdate(status, { color: value as TagColor })}
+              >
+                <SelectTrigger className="h-8 w-28" aria-label="Colour">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TAG_COLORS) as TagColor[]).map(color => (
+                    <SelectItem key={color} value={color}>
+                      <span className="flex items-center gap-2 capitalize">
+                        <span className={cn("h-3 w-3 rounded-full border", TAG_COLORS[color])} />
+                        {color}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={status.icon}
+                onValueChange={(value) => handleUpdate(status, { icon: value as StatusIcon })}
+              >
+                <SelectTrigger className="h-8 w-20" aria-label="Icon">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(STATUS_ICONS) as StatusIcon[]).map(icon => {
+                    const Icon = STATUS_ICONS[icon];
+                    return (
+                      <SelectItem key={icon} value={icon}>
+                        <Icon className={cn("h-4 w-4", ICON_COLORS[status.color])} />
+                      </SelectItem>
+                    );
+                  })}
+                </SelectContent>
+              </Select>
+              <Select
+                value={status.category}
+                onValueChange={(value) => handleUpdate(status, { category: value as StatusCategory })}
+              >
+                <SelectTrigger className="h-8 w-24" aria-label="Category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                    <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={isSaving || index === 0}
+                  onClick={() => handleMove(index, -1)}
+                  aria-label={`Move ${status.name} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={isSaving || index === statuses.length - 1}
+                  onClick={() => handleMove(index, 1)}
+                  aria-label={`Move ${status.name} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-red-600"
+                  disabled={isSaving || isLastOfCategory(status)}
+                  onClick={() => setStatusToDelete(status)}
+                  aria-label={`Delete ${status.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <form onSubmit={handleCreate} className="flex items-center gap-3 pt-3 border-t">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="New status, e.g. In Review"
+              className="h-8 flex-1"
+            />
+            <Select value={newCategory} onValueChange={(value) => setNewCategory(value as StatusCategory)}>
+              <SelectTrigger className="h-8 w-24" aria-label="Category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CATEGORY_LABELS) as StatusCategory[]).map(category => (
+                  <SelectItem key={category} value={category}>{CATEGORY_LABELS[category]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" size="sm" disabled={isSaving || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Transitions</CardTitle>
+          <CardDescription>
+            Which statuses a task can move to from each status. New statuses start with none.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>From \ To</TableHead>
+                {statuses.map(to => (
+                  <TableHead key={to.key} className="text-center">{to.name}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statuses.map(from => (
+                <TableRow key={from.key}>
+                  <TableCell className="font-medium">{from.name}</TableCell>
+                  {statuses.map(to => (
+                    <TableCell key={to.key} className="text-center">
+                      {from.key === to.key ? (
+                        <span className="text-muted-foreground">—</span>
+                      ) : (
+                        <Checkbox
+                          checked={canTransition(workflow, from.key, to.key)}
+                          disabled={isSaving}
+                          onCheckedChange={(checked) => save(
+                            () => setStatusTransition({ from_status: from.key, to_status: to.key }, checked === true),
+                            'Failed to update transition'
+                          )}
+                          aria-label={`Allow ${from.name} to ${to.name}`}
+                        />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!statusToDelete} onOpenChange={(open) => !open && setStatusToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete status</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{statusToDelete?.name}" and its transitions? This only works once no task has this
+              status, including tasks in the Trash.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default WorkflowManager;
@@ -5,8 +5,12 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Skeleton } from '@/components/ui/skeleton';
-import { CheckIcon, CircleIcon, Circle, CheckCircle2, Clock, AlertCircle } from 'lucide-react';
-import { TaskStatus } from '@/lib/supabase';
+import { CheckIcon, CircleIcon, AlertCircle, X } from 'lucide-react';
+import { TaskStatus, Tag } from '@/lib/supabase';
+import { TAG_COLORS, STATUS_ICONS } from '@/lib/constants';
+import { getStatus } from '@/lib/workflow';
+import { useWorkflow } from '@/hooks/use-workflow';
+import { SNIPPET_START, SNIPPET_END } from '@/lib/search';
 
 // Section with glass morphism effect
 export const GlassSection = React.forwardRef<
@@ -41,33 +45,15 @@ export const AnimatedContainer = React.forwardRef<
 ));
 AnimatedContainer.displayName = "AnimatedContainer";
 
-// Status badge for tasks
+// Status badge for tasks, styled by the workflow status it refers to
 export const StatusBadge = ({ status }: { status: TaskStatus }) => {
-  let bgColor = '';
-  let icon = null;
-  
-  switch (status) {
-    case 'pending':
-      bgColor = 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      icon = <Circle className="h-3.5 w-3.5 text-yellow-500" />;
-      break;
-    case 'in_progress':
-      bgColor = 'bg-blue-100 text-blue-800 border-blue-200';
-      icon = <Clock className="h-3.5 w-3.5 text-blue-500" />;
-      break;
-    case 'completed':
-      bgColor = 'bg-green-100 text-green-800 border-green-200';
-      icon = <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />;
-      break;
-    default:
-      bgColor = 'bg-gray-100 text-gray-800 border-gray-200';
-      icon = <AlertCircle className="h-3.5 w-3.5 text-gray-500" />;
-  }
+  const { name, color, icon } = getStatus(useWorkflow(), status);
+  const Icon = STATUS_ICONS[icon] || AlertCircle;
   
   return (
-    <div className={`inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium border ${bgColor}`}>
-      {icon}
-      <span className="capitalize">{status.replace('_', ' ')}</span>
+    <div className={cn('inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium border', TAG_COLORS[color] || TAG_COLORS.gray)}>
+      <Icon className="h-3.5 w-3.5" />
+      <span>{name}</span>
     </div>
   );
 };
@@ -90,6 +76,32 @@ export const PriorityIndicator = ({ priority }: { priority: number }) => {
   );
 };
 
+// Coloured chip for a tag
+export const TagBadge = ({ 
+  tag, 
+  onRemove 
+}: { 
+  tag: Pick<Tag, 'name' | 'color'>;
+  onRemove?: () => void;
+}) => (
+  <div className={cn(
+    "inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-xs font-medium border",
+    TAG_COLORS[tag.color] || TAG_COLORS.gray
+  )}>
+    #{tag.name}
+    {onRemove && (
+      <button 
+        type="button" 
+        onClick={onRemove} 
+        className="ml-0.5 rounded-full opacity-60 hover:opacity-100 focus:outline-none"
+        aria-label={`Remove ${tag.name}`}
+      >
+        <X className="h-3 w-3" />
+      </button>
+    )}
+  </div>
+);
+
 // Empty state component
 export const EmptyState = ({ 
   title, 
@@ -136,3 +148,23 @@ export const TaskListSkeleton = ({ count = 5 }: { count?: number }) => (
     ))}
   </div>
 );
+
+// Search result excerpt with the matched words highlighted
+export const SearchSnippet = ({ snippet, className }: { snippet: string; className?: string }) => {
+  const [before, ...matches] = snippet.split(SNIPPET_START);
+  
+  return (
+    <p className={cn("text-xs text-muted-foreground", className)}>
+      {before}
+      {matches.map((part, i) => {
+        const [match, rest] = part.split(SNIPPET_END);
+        return (
+          <React.Fragment key={i}>
+            <mark className="rounded bg-yellow-100 px-0.5 text-foreground">{match}</mark>
+            {rest}
+          </React.Fragment>
+        );
+      })}
+    </p>
+  );
+};
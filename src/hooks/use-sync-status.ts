@@ -0,0 +1,7 @@
+import * as React from "react"
+import { getSyncState, subscribeToSyncState } from "@/lib/offline"
+
+// Connection and offline sync state, shared across components
+export function useSyncStatus() {
+  return React.useSyncExternalStore(subscribeToSyncState, getSyncState)
+}
@@ -0,0 +1,85 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { Task, createNextOccurrence, getSubtasks, getTaskById, updateTask } from '@/lib/supabase';
+import { useTaskCompletion } from './use-tasks';
+
+// Only the network calls are replaced; the workflow falls back to the built-in one
+vi.mock('@/lib/supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase')>()),
+  getWorkflow: vi.fn(async () => ({ statuses: [], transitions: [] })),
+  createNextOccurrence: vi.fn(),
+  getTaskById: vi.fn(),
+  getSubtasks: vi.fn(),
+  updateTask: vi.fn(),
+}));
+
+const task = (fields: Partial<Task>): Task => ({
+  id: 'task-1',
+  title: 'Task',
+  description: '',
+  status: 'completed',
+  due_date: null,
+  priority: 1,
+  created_at: '2026-10-01T09:00:00.000Z',
+  user_id: 'user-1',
+  auto_complete: false,
+  recurrence: null,
+  parent_id: null,
+  tags: [],
+  ...fields,
+});
+
+const renderCompletion = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+  return renderHook(() => useTaskCompletion(), { wrapper }).result.current;
+};
+
+afterEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('useTaskCompletion', () => {
+  it('schedules the next occurrence of a recurring task', async () => {
+    const recurring = task({ recurrence: { frequency: 'daily', interval: 1 } });
+    const next = { ...task({ id: 'task-2', status: 'pending' }), tags: [] };
+    vi.mocked(createNextOccurrence).mockResolvedValue(next);
+
+    const completeTask = renderCompletion();
+
+    await expect(completeTask(recurring)).resolves.toEqual({ nextTask: next, parent: null });
+    expect(createNextOccurrence).toHaveBeenCalledWith(recurring);
+    expect(getTaskById).not.toHaveBeenCalled();
+  });
+
+  it('completes a parent that opted in once its last open subtask is done', async () => {
+    const parent = task({ id: 'parent', status: 'in_progress', auto_complete: true });
+    vi.mocked(getTaskById).mockResolvedValue({ data: parent, error: null } as never);
+    vi.mocked(getSubtasks).mockResolvedValue({
+      data: [task({ id: 'task-1', status: 'in_progress' }), task({ id: 'task-3' })],
+      error: null,
+    } as never);
+    vi.mocked(updateTask).mockResolvedValue({ data: { ...parent, status: 'completed' }, error: null } as never);
+
+    const completeTask = renderCompletion();
+    const { parent: completedParent } = await completeTask(task({ parent_id: 'parent' }));
+
+    expect(updateTask).toHaveBeenCalledWith('parent', { status: 'completed' });
+    expect(completedParent).toMatchObject({ id: 'parent', status: 'completed' });
+  });
+
+  it('leaves the parent open while another subtask is open', async () => {
+    vi.mocked(getTaskById).mockResolvedValue({ data: task({ id: 'parent', status: 'pending', auto_complete: true }), error: null } as never);
+    vi.mocked(getSubtasks).mockResolvedValue({ data: [task({}), task({ id: 'task-3', status: 'pending' })], error: null } as never);
+
+    const completeTask = renderCompletion();
+
+    await expect(completeTask(task({ parent_id: 'parent' }))).resolves.toEqual({ nextTask: null, parent: null });
+    expect(updateTask).not.toHaveBeenCalled();
+  });
+});
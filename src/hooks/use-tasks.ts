@@ -0,0 +1,322 @@
+import * as React from "react"
+import {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+} from "@tanstack/react-query"
+import {
+  Task,
+  Tag,
+  TaskCursor,
+  TaskFields,
+  TaskFilters,
+  TaskSort,
+  TaskStatus,
+  getCurrentSession,
+  getTasks,
+  createTask,
+  updateTask,
+  updateTaskIfUnchanged,
+  getTaskById,
+  deleteTask,
+  setTaskTags,
+  getSubtasks,
+  createNextOccurrence,
+  toTask,
+} from "@/lib/supabase"
+import {
+  createTaskOffline,
+  updateTaskOffline,
+  deleteTaskOffline,
+  removeCachedTasks,
+  queryCachedTasks,
+  isNetworkError,
+} from "@/lib/offline"
+import { TASK_PAGE_SIZE } from "@/lib/constants"
+import { isBlockedStatusChange } from "@/lib/dependencies"
+import { canTransition, getCompletedStatus, isDoneStatus } from "@/lib/workflow"
+import { useWorkflow } from "@/hooks/use-workflow"
+
+// Every task query lives under ['tasks'], so one invalidation refreshes the lists, the
+// calendar and anything else showing tasks
+export const taskKeys = {
+  all: ["tasks"] as const,
+  lists: () => [...taskKeys.all, "list"] as const,
+  list: (filters: TaskFilters, sort: TaskSort) => [...taskKeys.lists(), { filters, sort }] as const,
+  calendar: (from: string, to: string, openStatuses: TaskStatus[]) =>
+    [...taskKeys.all, "calendar", { from, to, openStatuses }] as const,
+}
+
+export type TaskPage = {
+  tasks: Task[]
+  count: number
+  nextCursor: TaskCursor | null
+}
+
+type TaskListData = InfiniteData<TaskPage, TaskCursor | null>
+
+type TaskSnapshot = { snapshot: [QueryKey, TaskListData | Task[] | undefined][] }
+
+// Reads one page of the list. Without a connection the first page comes from the tasks
+// cached on this device and there are no further pages.
+const fetchTaskPage = async (filters: TaskFilters, sort: TaskSort, cursor: TaskCursor | null): Promise<TaskPage> => {
+  const loadCachedPage = async () => {
+    const tasks = cursor ? [] : await queryCachedTasks(filters, sort)
+    return { tasks, count: tasks.length, nextCursor: null }
+  }
+
+  if (!navigator.onLine) return loadCachedPage()
+
+  try {
+    const { data, error, count, nextCursor } = await getTasks({ filters, sort, cursor, limit: TASK_PAGE_SIZE })
+    if (error) throw error
+
+    return { tasks: data.map(toTask), count: count ?? 0, nextCursor }
+  } catch (error) {
+    if (isNetworkError(error)) return loadCachedPage()
+    throw error
+  }
+}
+
+// Pages only matter for their cursors, so an updated list is split back into pages of the
+// sizes they had before; the last page takes whatever is left over
+const repaginate = (data: TaskListData, tasks: Task[]): TaskListData => {
+  const countChange = tasks.length - data.pages.reduce((total, page) => total + page.tasks.length, 0)
+  let start = 0
+
+  return {
+    ...data,
+    pages: data.pages.map((page, index) => {
+      const end = index === data.pages.length - 1 ? tasks.length : start + page.tasks.length
+      const pageTasks = tasks.slice(start, end)
+      start = end
+      return { ...page, tasks: pageTasks, count: Math.max(page.count + countChange, 0) }
+    }),
+  }
+}
+
+// Rewrites the tasks held by every cached task query, paginated lists and plain arrays alike
+export const updateCachedTasks = (queryClient: QueryClient, update: (tasks: Task[]) => Task[]) => {
+  queryClient.setQueriesData<TaskListData | Task[]>({ queryKey: taskKeys.all }, data => {
+    if (!data) return data
+    if (Array.isArray(data)) return update(data)
+    return repaginate(data, update(data.pages.flatMap(page => page.tasks)))
+  })
+}
+
+// Drops the given tasks together with any of their subtasks in the same list
+const withoutTaskTrees = (tasks: Task[], ids: string[]) => {
+  const removedIds = new Set(ids)
+  let size = 0
+  while (size !== removedIds.size) {
+    size = removedIds.size
+    tasks.forEach(task => {
+      if (task.parent_id && removedIds.has(task.parent_id)) removedIds.add(task.id)
+    })
+  }
+  return tasks.filter(task => !removedIds.has(task.id))
+}
+
+const applyOptimisticUpdate = async (queryClient: QueryClient, update: (tasks: Task[]) => Task[]): Promise<TaskSnapshot> => {
+  // A refetch finishing after this point would overwrite the optimistic state
+  await queryClient.cancelQueries({ queryKey: taskKeys.all })
+  const snapshot = queryClient.getQueriesData<TaskListData | Task[]>({ queryKey: taskKeys.all })
+  updateCachedTasks(queryClient, update)
+  return { snapshot }
+}
+
+const rollback = (queryClient: QueryClient, context?: TaskSnapshot) => {
+  context?.snapshot.forEach(([queryKey, data]) => queryClient.setQueryData<TaskListData | Task[]>(queryKey, data))
+}
+
+export function useRefreshTasks() {
+  const queryClient = useQueryClient()
+  return React.useCallback(() => queryClient.invalidateQueries({ queryKey: taskKeys.all }), [queryClient])
+}
+
+// The infinite-scrolling task list for a search, filters and sort
+export function useTaskList(filters: TaskFilters, sort: TaskSort) {
+  const query = useInfiniteQuery({
+    queryKey: taskKeys.list(filters, sort),
+    queryFn: ({ pageParam }) => fetchTaskPage(filters, sort, pageParam),
+    initialPageParam: null as TaskCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    // Offline reads fall back to the device cache instead of waiting for a connection
+    networkMode: "always",
+  })
+
+  const tasks = React.useMemo(() => query.data?.pages.flatMap(page => page.tasks) ?? [], [query.data])
+  const totalCount = query.data?.pages[0]?.count ?? 0
+
+  return { ...query, tasks, totalCount }
+}
+
+export type CreateTaskVariables = {
+  // Generated by the caller so the optimistic task and the saved one share an id
+  id: string
+  fields: TaskFields
+  tags?: Tag[]
+}
+
+export function useCreateTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, fields, tags = [] }: CreateTaskVariables) => {
+      if (!navigator.onLine) return createTaskOffline(fields, tags, id)
+
+      const { data, error } = await createTask({ ...fields, id })
+      if (error) throw error
+
+      if (tags.length > 0) await setTaskTags(id, tags.map(tag => tag.id))
+      return { ...toTask(data), tags }
+    },
+    onMutate: async ({ id, fields, tags = [] }) => {
+      const { data: { session } } = await getCurrentSession()
+      const task: Task = {
+        ...fields,
+        id,
+        created_at: new Date().toISOString(),
+        user_id: session?.user.id,
+        tags,
+        comment_count: 0,
+        attachment_count: 0,
+      }
+      return applyOptimisticUpdate(queryClient, tasks => [task, ...tasks])
+    },
+    onError: (error, variables, context) => rollback(queryClient, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: taskKeys.all }),
+    networkMode: "always",
+  })
+}
+
+export type UpdateTaskVariables = {
+  task: Task
+  changes: Partial<TaskFields>
+  // Replaces the task's tags when given
+  tags?: Tag[]
+  // The updated_at the editor loaded. When given, the save only goes through if nobody has
+  // written to the task since, and fails with a TaskConflictError otherwise.
+  expectedUpdatedAt?: string
+}
+
+// Someone else saved the task after the editor loaded it
+export class TaskConflictError extends Error {
+  // The task as it is on the server now, or null if it no longer exists
+  serverTask: Task | null
+
+  constructor(serverTask: Task | null) {
+    super(serverTask ? "This task was changed by someone else" : "This task was deleted by someone else")
+    this.name = "TaskConflictError"
+    this.serverTask = serverTask
+  }
+}
+
+export function useUpdateTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ task, changes, tags, expectedUpdatedAt }: UpdateTaskVariables) => {
+      // Edits queued offline carry the version they were made against and are checked on replay
+      if (!navigator.onLine) return updateTaskOffline(task, changes, tags)
+
+      const { data, error } = expectedUpdatedAt
+        ? await updateTaskIfUnchanged(task.id, changes, expectedUpdatedAt)
+        : await updateTask(task.id, changes)
+      if (error) throw error
+
+      if (!data) {
+        const { data: current, error: fetchError } = await getTaskById(task.id)
+        if (fetchError) throw fetchError
+        throw new TaskConflictError(current ? toTask(current) : null)
+      }
+
+      if (tags) await setTaskTags(task.id, tags.map(tag => tag.id))
+      const updated = toTask(data)
+      return tags ? { ...updated, tags } : updated
+    },
+    onMutate: ({ task, changes, tags }) =>
+      applyOptimisticUpdate(queryClient, tasks =>
+        tasks.map(t => t.id === task.id ? { ...t, ...changes, tags: tags ?? t.tags } : t)
+      ),
+    onSuccess: updated => {
+      updateCachedTasks(queryClient, tasks => tasks.map(t => t.id === updated.id ? { ...t, ...updated } : t))
+    },
+    onError: (error, variables, context) => rollback(queryClient, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: taskKeys.all }),
+    networkMode: "always",
+  })
+}
+
+// Moves a task and its subtasks to the Trash. Resolves to the ids that were removed.
+export function useDeleteTask() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (task: Task) => {
+      if (!navigator.onLine) return deleteTaskOffline(task)
+
+      const { data, error } = await deleteTask(task.id)
+      if (error) throw error
+
+      const removedIds = data.map(row => row.id)
+      await removeCachedTasks(removedIds)
+      return removedIds
+    },
+    onMutate: task => applyOptimisticUpdate(queryClient, tasks => withoutTaskTrees(tasks, [task.id])),
+    onError: (error, task, context) => rollback(queryClient, context),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: taskKeys.all }),
+    networkMode: "always",
+  })
+}
+
+export type TaskCompletion = {
+  // The occurrence scheduled after a recurring task
+  nextTask: Task | null
+  // The parent, when this was its last open subtask and it completed too
+  parent: Task | null
+}
+
+// What completing a task sets off, wherever it was completed: a recurring task schedules its
+// next occurrence, and a parent that opted in to auto-complete is completed once its last open
+// subtask is done, which can in turn complete its own parent. A parent that is still blocked is
+// left for the user. Both need the server; offline, the next occurrence is scheduled when the
+// change syncs.
+export function useTaskCompletion() {
+  const { mutateAsync: saveTask } = useUpdateTask()
+  const workflow = useWorkflow()
+
+  return React.useCallback(async function completeFollowUps(task: Task): Promise<TaskCompletion> {
+    if (!navigator.onLine) return { nextTask: null, parent: null }
+
+    const nextTask = task.recurrence && !task.next_occurrence_id ? await createNextOccurrence(task) : null
+
+    const completedStatus = getCompletedStatus(workflow)
+    if (!task.parent_id || !completedStatus) return { nextTask, parent: null }
+
+    const { data, error } = await getTaskById(task.parent_id)
+    if (error) throw error
+
+    // The parent may not be visible to whoever completed the subtask
+    const parent = data ? toTask(data) : null
+    if (
+      !parent?.auto_complete || isDoneStatus(workflow, parent.status) ||
+      !canTransition(workflow, parent.status, completedStatus) || isBlockedStatusChange(parent, completedStatus, workflow)
+    ) {
+      return { nextTask, parent: null }
+    }
+
+    const { data: siblings, error: siblingsError } = await getSubtasks(parent.id)
+    if (siblingsError) throw siblingsError
+    if (!siblings.every(sibling => sibling.id === task.id || isDoneStatus(workflow, sibling.status))) {
+      return { nextTask, parent: null }
+    }
+
+    const completedParent = await saveTask({ task: parent, changes: { status: completedStatus } })
+    await completeFollowUps(completedParent)
+    return { nextTask, parent: completedParent }
+  }, [saveTask, workflow])
+}
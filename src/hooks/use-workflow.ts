@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+import { getWorkflow } from "@/lib/supabase"
+import { DEFAULT_WORKFLOW } from "@/lib/workflow"
+
+export const workflowKey = ["workflow"] as const
+
+// The configured statuses and transitions. Falls back to the built-in workflow while loading
+// and when it can't be fetched, so status UI always has something to show.
+export function useWorkflow() {
+  const { data } = useQuery({
+    queryKey: workflowKey,
+    queryFn: getWorkflow,
+    // Admins rarely change the workflow; their own edits invalidate it right away
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return data && data.statuses.length > 0 ? data : DEFAULT_WORKFLOW
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { Tag, Task } from './supabase';
+import { getDifferingFields, mergeTaskVersions } from './conflicts';
+
+const tag = (id: string, name: string): Tag => ({
+  id,
+  name,
+  color: 'blue',
+  user_id: 'user-1',
+  created_at: '2026-10-01T09:00:00.000Z',
+});
+
+const task = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  title: 'Write report',
+  description: 'Quarterly numbers',
+  status: 'pending',
+  due_date: '2026-10-20T15:00:00.000Z',
+  priority: 2,
+  created_at: '2026-10-01T09:00:00.000Z',
+  updated_at: '2026-10-19T09:00:00.000Z',
+  user_id: 'user-1',
+  assignee_id: null,
+  auto_complete: false,
+  recurrence: null,
+  tags: [
+    tag('tag-a', 'work'),
+    tag('tag-b', 'q4'),
+  ],
+  ...overrides,
+});
+
+describe('getDifferingFields', () => {
+  it('finds the merge fields that differ', () => {
+    expect(getDifferingFields(task(), task({ title: 'Write the report', priority: 3 }))).toEqual(['title', 'priority']);
+  });
+
+  it('ignores fields outside the form', () => {
+    expect(getDifferingFields(task(), task({ updated_at: '2026-10-19T10:00:00.000Z', comment_count: 4 }))).toEqual([]);
+  });
+
+  it('treats equal values written differently as the same', () => {
+    const server = task({
+      due_date: '2026-10-20T17:00:00+02:00',
+      tags: [...task().tags].reverse(),
+      auto_complete: undefined,
+      description: 'Quarterly numbers',
+    });
+    expect(getDifferingFields(task(), server)).toEqual([]);
+  });
+
+  it('compares recurrence by meaning rather than key order', () => {
+    const local = task({ recurrence: { frequency: 'weekly', weekdays: [1, 3] } });
+    const server = task({ recurrence: { weekdays: [1, 3], frequency: 'weekly' } });
+    expect(getDifferingFields(local, server)).toEqual([]);
+    expect(getDifferingFields(local, task({ recurrence: null }))).toEqual(['recurrence']);
+  });
+
+  it('notices a changed set of tags', () => {
+    expect(getDifferingFields(task(), task({ tags: [task().tags[0]] }))).toEqual(['tags']);
+  });
+});
+
+describe('mergeTaskVersions', () => {
+  it('takes the chosen fields from the server and keeps the rest local', () => {
+    const local = task({ title: 'Mine', priority: 3 });
+    const server = task({ title: 'Theirs', priority: 1, status: 'completed', updated_at: '2026-10-19T10:00:00.000Z' });
+
+    expect(mergeTaskVersions(local, server, { title: 'theirs', priority: 'mine' })).toEqual({
+      ...local,
+      title: 'Theirs',
+    });
+  });
+
+  it('keeps local values for fields without a choice', () => {
+    const local = task({ title: 'Mine' });
+    expect(mergeTaskVersions(local, task({ title: 'Theirs' }), {})).toEqual(local);
+  });
+});
@@ -0,0 +1,66 @@
+import { Task } from './supabase';
+import { describeRecurrence } from './recurrence';
+
+// Fields TaskForm edits, and so the ones a conflicting save is merged on
+export type MergeField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'due_date'
+  | 'assignee_id'
+  | 'recurrence'
+  | 'auto_complete'
+  | 'tags';
+
+export type MergeChoice = 'mine' | 'theirs';
+
+export const MERGE_FIELDS: { key: MergeField; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'status', label: 'Status' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'due_date', label: 'Due date' },
+  { key: 'assignee_id', label: 'Assignee' },
+  { key: 'recurrence', label: 'Repeat' },
+  { key: 'auto_complete', label: 'Auto-complete' },
+  { key: 'tags', label: 'Tags' },
+];
+
+// Reduces a field to a string that is the same for equal values written differently: one
+// instant with different offsets, tags in another order, or recurrence JSON with its keys
+// reordered by the database
+const comparableValue = (task: Task, field: MergeField) => {
+  switch (field) {
+    case 'due_date':
+      return task.due_date ? String(new Date(task.due_date).getTime()) : '';
+    case 'tags':
+      return (task.tags || []).map(tag => tag.id).sort().join(',');
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : '';
+    case 'auto_complete':
+      return String(!!task.auto_complete);
+    default:
+      return String(task[field] ?? '');
+  }
+};
+
+export const fieldDiffers = (a: Task, b: Task, field: MergeField) =>
+  comparableValue(a, field) !== comparableValue(b, field);
+
+export const getDifferingFields = (a: Task, b: Task) =>
+  MERGE_FIELDS.map(field => field.key).filter(field => fieldDiffers(a, b, field));
+
+// Takes each field from the local or the server version as chosen; fields without a choice
+// keep the local value
+export const mergeTaskVersions = (
+  local: Task,
+  server: Task,
+  choices: Partial<Record<MergeField, MergeChoice>>
+): Task => {
+  const merged = { ...local };
+  MERGE_FIELDS.forEach(({ key }) => {
+    if (choices[key] === 'theirs') Object.assign(merged, { [key]: server[key] });
+  });
+  return merged;
+};
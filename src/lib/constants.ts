@@ -1,3 +1,15 @@
+import {
+  AlertCircle,
+  CheckCircle2,
+  Circle,
+  Clock,
+  Eye,
+  Flag,
+  LucideIcon,
+  PauseCircle,
+  XCircle
+} from 'lucide-react';
+
 export const SUPABASE_URL = 'zbljejuuujfjgpcxainn';
 
 export const STORAGE_KEYS = {
@@ -9,4 +21,79 @@ export const USER_ROLES = {
   USER: 'user',
 } as const;
 
-export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES]; 
\ No newline at end of file
+export type UserRole = typeof USER_ROLES[keyof typeof USER_ROLES]; 
+
+// Tag colours are stored by name; the classes are spelled out so Tailwind keeps them
+export const TAG_COLORS = {
+  gray: 'bg-gray-100 text-gray-800 border-gray-200',
+  red: 'bg-red-100 text-red-800 border-red-200',
+  orange: 'bg-orange-100 text-orange-800 border-orange-200',
+  yellow: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  green: 'bg-green-100 text-green-800 border-green-200',
+  teal: 'bg-teal-100 text-teal-800 border-teal-200',
+  blue: 'bg-blue-100 text-blue-800 border-blue-200',
+  purple: 'bg-purple-100 text-purple-800 border-purple-200',
+  pink: 'bg-pink-100 text-pink-800 border-pink-200',
+} as const;
+
+export type TagColor = keyof typeof TAG_COLORS;
+
+// Stand-alone icon colours for the same palette, e.g. a task's status icon
+export const ICON_COLORS: Record<TagColor, string> = {
+  gray: 'text-gray-500',
+  red: 'text-red-500',
+  orange: 'text-orange-500',
+  yellow: 'text-yellow-500',
+  green: 'text-green-500',
+  teal: 'text-teal-500',
+  blue: 'text-blue-500',
+  purple: 'text-purple-500',
+  pink: 'text-pink-500',
+};
+
+// Icons an admin can give a workflow status; statuses store the name and share the tag colours
+export const STATUS_ICONS = {
+  circle: Circle,
+  clock: Clock,
+  eye: Eye,
+  pause: PauseCircle,
+  flag: Flag,
+  alert: AlertCircle,
+  check: CheckCircle2,
+  cancelled: XCircle,
+} satisfies Record<string, LucideIcon>;
+
+export type StatusIcon = keyof typeof STATUS_ICONS;
+
+export const ATTACHMENTS_BUCKET = 'task-attachments';
+
+// Mirrors the limits configured on the storage bucket
+export const ATTACHMENT_MAX_SIZE = 10 * 1024 * 1024;
+
+export const ATTACHMENT_ALLOWED_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
+
+// How long deleted tasks stay in the Trash before they are purged automatically
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90] as const;
+
+// Tasks fetched per page by the infinite-scrolling task list
+export const TASK_PAGE_SIZE = 50;
+
+// Realtime changes arriving this close together are fetched in one request
+export const REALTIME_BATCH_DELAY_MS = 300;
+
+// How long a task changed by someone else stays highlighted in the list
+export const TASK_HIGHLIGHT_DURATION_MS = 2500;
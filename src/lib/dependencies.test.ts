@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { Task, TaskLink } from './supabase';
+import { DEFAULT_WORKFLOW } from './workflow';
+import { getOpenBlockers, getOpenLinks, isBlockedStatusChange } from './dependencies';
+
+const blocker = (id: string, overrides: Partial<TaskLink> = {}): TaskLink => ({
+  id,
+  title: `Blocker ${id}`,
+  status: 'pending',
+  deleted_at: null,
+  ...overrides,
+});
+
+const task = (blockedBy: TaskLink[], status = 'pending'): Task => ({
+  id: 'task-1',
+  title: 'Ship release',
+  status,
+  priority: 1,
+  created_at: '2026-10-01T09:00:00.000Z',
+  user_id: 'user-1',
+  blocked_by: blockedBy,
+});
+
+describe('getOpenLinks', () => {
+  it('leaves out completed and trashed tasks', () => {
+    const links = [
+      blocker('a'),
+      blocker('b', { status: 'completed' }),
+      blocker('c', { status: 'in_progress' }),
+      blocker('d', { deleted_at: '2026-10-18T09:00:00.000Z' }),
+    ];
+    expect(getOpenLinks(links, DEFAULT_WORKFLOW).map(link => link.id)).toEqual(['a', 'c']);
+    expect(getOpenLinks(undefined, DEFAULT_WORKFLOW)).toEqual([]);
+  });
+});
+
+describe('isBlockedStatusChange', () => {
+  const blocked = task([blocker('a'), blocker('b', { status: 'completed' })]);
+
+  it('blocks moving forward while a blocker is open', () => {
+    expect(getOpenBlockers(blocked, DEFAULT_WORKFLOW).map(link => link.id)).toEqual(['a']);
+    expect(isBlockedStatusChange(blocked, 'in_progress', DEFAULT_WORKFLOW)).toBe(true);
+    expect(isBlockedStatusChange(blocked, 'completed', DEFAULT_WORKFLOW)).toBe(true);
+  });
+
+  it('always allows moving back to the initial status or keeping the current one', () => {
+    expect(isBlockedStatusChange(task([blocker('a')], 'in_progress'), 'pending', DEFAULT_WORKFLOW)).toBe(false);
+    expect(isBlockedStatusChange(task([blocker('a')], 'in_progress'), 'in_progress', DEFAULT_WORKFLOW)).toBe(false);
+  });
+
+  it('allows anything once the blockers are done', () => {
+    expect(isBlockedStatusChange(task([blocker('b', { status: 'completed' })]), 'completed', DEFAULT_WORKFLOW)).toBe(false);
+  });
+});
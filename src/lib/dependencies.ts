@@ -0,0 +1,12 @@
+import { Task, TaskLink, TaskStatus, Workflow } from './supabase';
+import { getInitialStatus, isDoneStatus } from './workflow';
+
+// Linked tasks that are still in the way: not in a done status and not in the Trash
+export const getOpenLinks = (links: TaskLink[] | undefined, workflow: Workflow) =>
+  (links || []).filter(link => !isDoneStatus(workflow, link.status) && !link.deleted_at);
+
+export const getOpenBlockers = (task: Task, workflow: Workflow) => getOpenLinks(task.blocked_by, workflow);
+
+// Moving a task on waits for its blockers; moving it back to the initial status never does
+export const isBlockedStatusChange = (task: Task, status: TaskStatus, workflow: Workflow) =>
+  status !== getInitialStatus(workflow) && status !== task.status && getOpenBlockers(task, workflow).length > 0;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Task } from './supabase';
+import { EXPORT_COLUMNS, buildTasksExport } from './export';
+
+const columns = (...keys: string[]) => keys.map(key => EXPORT_COLUMNS.find(column => column.key === key));
+
+const task: Task = {
+  id: 'task-1',
+  title: 'Quarterly "numbers", final',
+  description: 'Line one\nLine two',
+  status: 'pending',
+  due_date: '2026-10-20T15:00:00+00:00',
+  priority: 3,
+  created_at: '2026-10-01T09:00:00.000Z',
+  user_id: 'user-1',
+  assignee_id: 'user-2',
+  tags: [
+    { id: 'tag-1', name: 'finance', color: 'green', user_id: 'user-1', created_at: '2026-10-01T09:00:00.000Z' },
+    { id: 'tag-2', name: 'q4', color: 'blue', user_id: 'user-1', created_at: '2026-10-01T09:00:00.000Z' },
+  ],
+};
+
+const userEmails = { 'user-1': 'ana@example.com' };
+
+describe('buildTasksExport', () => {
+  it('writes CSV with a byte order mark, quoting where needed', () => {
+    const csv = buildTasksExport([task], columns('title', 'description', 'due_date', 'owner', 'assignee', 'tags'), userEmails, {
+      format: 'csv',
+      dateStyle: 'iso',
+    });
+
+    expect(csv).toBe(
+      '﻿Title,Description,Due date,Owner,Assignee,Tags\r\n'
+        + '"Quarterly ""numbers"", final","Line one\nLine two",2026-10-20T15:00:00.000Z,ana@example.com,user-2,finance; q4'
+    );
+  });
+
+  it('keeps spreadsheet formulas as plain text', () => {
+    const csv = buildTasksExport([{ ...task, title: '=HYPERLINK("http://example.com")' }], columns('title', 'priority'), {}, {
+      format: 'csv',
+      dateStyle: 'iso',
+    });
+
+    expect(csv.split('\r\n')[1]).toBe(`"'=HYPERLINK(""http://example.com"")",3`);
+  });
+
+  it('writes JSON records keyed by column, with empty values as null', () => {
+    const json = buildTasksExport([{ ...task, due_date: null }], columns('title', 'due_date', 'tags', 'comment_count'), userEmails, {
+      format: 'json',
+      dateStyle: 'iso',
+    });
+
+    expect(JSON.parse(json)).toEqual([
+      { title: 'Quarterly "numbers", final', due_date: null, tags: ['finance', 'q4'], comment_count: 0 },
+    ]);
+  });
+});
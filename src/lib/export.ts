@@ -0,0 +1,101 @@
+import { format } from 'date-fns';
+import type { Task } from './supabase';
+import { describeRecurrence } from './recurrence';
+
+export type ExportFormat = 'csv' | 'json';
+
+// ISO timestamps for spreadsheets and scripts, or the browser's locale for people
+export type ExportDateStyle = 'iso' | 'localized';
+
+type ExportValue = string | number | boolean | string[] | null;
+
+export type ExportColumn = {
+  key: string;
+  label: string;
+  value: (task: Task, userEmails: Record<string, string>) => ExportValue;
+  isDate?: boolean;
+};
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'id', label: 'ID', value: task => task.id },
+  { key: 'title', label: 'Title', value: task => task.title },
+  { key: 'description', label: 'Description', value: task => task.description || null },
+  { key: 'status', label: 'Status', value: task => task.status },
+  { key: 'priority', label: 'Priority', value: task => task.priority },
+  { key: 'due_date', label: 'Due date', value: task => task.due_date || null, isDate: true },
+  { key: 'created_at', label: 'Created', value: task => task.created_at, isDate: true },
+  { key: 'owner', label: 'Owner', value: (task, userEmails) => userEmails[task.user_id] || task.user_id },
+  {
+    key: 'assignee',
+    label: 'Assignee',
+    value: (task, userEmails) => task.assignee_id ? userEmails[task.assignee_id] || task.assignee_id : null,
+  },
+  { key: 'tags', label: 'Tags', value: task => (task.tags || []).map(tag => tag.name) },
+  { key: 'parent_id', label: 'Parent task ID', value: task => task.parent_id || null },
+  { key: 'recurrence', label: 'Repeats', value: task => task.recurrence ? describeRecurrence(task.recurrence) : null },
+  { key: 'comment_count', label: 'Comments', value: task => task.comment_count ?? 0 },
+  { key: 'attachment_count', label: 'Attachments', value: task => task.attachment_count ?? 0 },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = [
+  'title', 'description', 'status', 'priority', 'due_date', 'created_at', 'owner', 'assignee', 'tags',
+];
+
+const formatDate = (value: ExportValue, dateStyle: ExportDateStyle) => {
+  if (typeof value !== 'string') return value;
+  return dateStyle === 'iso' ? new Date(value).toISOString() : new Date(value).toLocaleString();
+};
+
+const toRecords = (
+  tasks: Task[],
+  columns: ExportColumn[],
+  userEmails: Record<string, string>,
+  dateStyle: ExportDateStyle
+) => tasks.map(task => Object.fromEntries(columns.map(column => {
+  const value = column.value(task, userEmails);
+  return [column.key, column.isDate ? formatDate(value, dateStyle) : value];
+})));
+
+// Quotes a CSV field when needed. Text that a spreadsheet would run as a formula gets a leading
+// apostrophe so an exported title like "=HYPERLINK(...)" stays plain text.
+const escapeCsvField = (value: ExportValue) => {
+  if (value === null) return '';
+
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildTasksExport = (
+  tasks: Task[],
+  columns: ExportColumn[],
+  userEmails: Record<string, string>,
+  { format: exportFormat, dateStyle }: { format: ExportFormat; dateStyle: ExportDateStyle }
+) => {
+  const records = toRecords(tasks, columns, userEmails, dateStyle);
+
+  if (exportFormat === 'json') {
+    return JSON.stringify(records, null, 2);
+  }
+
+  const header = columns.map(column => escapeCsvField(column.label)).join(',');
+  const rows = records.map(record => columns.map(column => escapeCsvField(record[column.key])).join(','));
+  // The byte order mark makes Excel read the file as UTF-8
+  return '\uFEFF' + [header, ...rows].join('\r\n');
+};
+
+export const getExportFileName = (exportFormat: ExportFormat) =>
+  `tasks-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+export const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+};
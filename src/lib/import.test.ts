@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  csvToImportRows,
+  guessColumnMapping,
+  parseCsv,
+  parseTodoistCsv,
+  parseTodoistJson,
+  parseTrelloJson,
+  validateImportRows
+} from './import';
+import { DEFAULT_WORKFLOW } from './workflow';
+
+describe('parseCsv', () => {
+  it('reads quoted commas, doubled quotes and line breaks', () => {
+    const csv = '﻿Title,Notes\r\n"Call Bob, then Ann","He said ""soon""\nMaybe"\r\n\r\nPlain,\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['Title', 'Notes'],
+      ['Call Bob, then Ann', 'He said "soon"\nMaybe'],
+      ['Plain', ''],
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps headers that look like task fields', () => {
+    expect(guessColumnMapping(['ID', 'Name', 'Deadline', ' Labels ', 'Notes'])).toEqual({
+      title: 1,
+      due_date: 2,
+      tags: 3,
+      description: 4,
+    });
+  });
+});
+
+describe('csvToImportRows', () => {
+  it('reads mapped cells and splits tags', () => {
+    const rows = csvToImportRows(
+      { headers: ['Title', 'Tags'], rows: [['  Pay rent ', '#home; bills']] },
+      { title: 0, tags: 1 }
+    );
+
+    expect(rows).toEqual([{
+      key: 'row-0',
+      source: 'Row 2',
+      title: 'Pay rent',
+      description: '',
+      status: '',
+      priority: '',
+      due_date: null,
+      tags: ['home', 'bills'],
+    }]);
+  });
+});
+
+describe('parseTodoistCsv', () => {
+  it('nests indented tasks, appends notes and reads @labels', () => {
+    const rows = parseTodoistCsv({
+      headers: ['TYPE', 'CONTENT', 'DESCRIPTION', 'PRIORITY', 'INDENT', 'DATE'],
+      rows: [
+        ['task', 'Plan trip @travel', '', '1', '1', '2026-11-03'],
+        ['note', 'Book early', '', '', '', ''],
+        ['task', 'Book flights', '', '4', '2', 'every monday'],
+      ],
+    });
+
+    expect(rows.map(({ title, description, priority, tags, parentKey, due_date }) =>
+      ({ title, description, priority, tags, parentKey, due_date })
+    )).toEqual([
+      { title: 'Plan trip', description: 'Book early', priority: 3, tags: ['travel'], parentKey: null, due_date: '2026-11-03' },
+      { title: 'Book flights', description: '', priority: 1, tags: [], parentKey: 'row-0', due_date: null },
+    ]);
+    expect(rows[1].warnings).toEqual(['Due date "every monday" couldn\'t be read and was left empty']);
+  });
+
+  it('rejects files without Todoist columns', () => {
+    expect(() => parseTodoistCsv({ headers: ['Title'], rows: [] })).toThrow(/Todoist CSV/);
+  });
+});
+
+describe('parseTodoistJson', () => {
+  it('reads a sync backup, naming labels by id and skipping deleted items', () => {
+    const rows = parseTodoistJson({
+      labels: [{ id: 7, name: 'errands' }],
+      items: [
+        { id: 1, content: 'Groceries', priority: 4, labels: [7], checked: 1, due: { date: '2026-10-20' } },
+        { id: 2, content: 'Milk', parent_id: 1 },
+        { id: 3, content: 'Gone', is_deleted: true },
+      ],
+    });
+
+    expect(rows.map(({ key, status, priority, tags, parentKey, due_date }) =>
+      ({ key, status, priority, tags, parentKey, due_date })
+    )).toEqual([
+      { key: '1', status: 'done', priority: 3, tags: ['errands'], parentKey: null, due_date: '2026-10-20' },
+      { key: '2', status: '', priority: 1, tags: [], parentKey: '1', due_date: null },
+    ]);
+  });
+});
+
+describe('parseTrelloJson', () => {
+  it('takes statuses from lists and turns checklist items into subtasks', () => {
+    const rows = parseTrelloJson({
+      lists: [
+        { id: 'l1', name: 'Doing' },
+        { id: 'l2', name: 'Done' },
+        { id: 'l3', name: 'Old', closed: true },
+      ],
+      cards: [
+        { id: 'c1', name: 'Write spec', idList: 'l1', labels: [{ name: 'docs' }, { color: 'red' }] },
+        { id: 'c2', name: 'Ship', idList: 'l2' },
+        { id: 'c3', name: 'Archived list', idList: 'l3' },
+      ],
+      checklists: [
+        { idCard: 'c1', checkItems: [{ id: 'i1', name: 'Outline', state: 'complete' }] },
+        { idCard: 'c3', checkItems: [{ id: 'i2', name: 'Skipped', state: 'incomplete' }] },
+      ],
+    }, DEFAULT_WORKFLOW);
+
+    expect(rows.map(({ key, status, tags, parentKey }) => ({ key, status, tags, parentKey }))).toEqual([
+      { key: 'c1', status: 'in_progress', tags: ['docs', 'red'], parentKey: undefined },
+      { key: 'c2', status: 'completed', tags: [], parentKey: undefined },
+      { key: 'i1', status: 'done', tags: [], parentKey: 'c1' },
+    ]);
+  });
+
+  it('rejects data that isn\'t a board', () => {
+    expect(() => parseTrelloJson({ cards: [] }, DEFAULT_WORKFLOW)).toThrow(/Trello board/);
+  });
+});
+
+describe('validateImportRows', () => {
+  it('resolves statuses and priorities, and rejects subtasks of invalid rows', () => {
+    const rows = validateImportRows([
+      { key: 'a', source: 'Row 2', title: 'Ship', status: 'done', priority: 'high', due_date: '2026-11-03', tags: [] },
+      { key: 'b', source: 'Row 3', title: 'Plan', status: 'Someday', priority: '', tags: [] },
+      { key: 'c', source: 'Row 4', title: 'Outline', tags: [], parentKey: 'b' },
+      { key: 'd', source: 'Row 5', title: 'Later', due_date: 'soonish', tags: [] },
+    ], DEFAULT_WORKFLOW);
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[0].values).toMatchObject({ title: 'Ship', status: 'completed', priority: 3 });
+    expect(rows[0].values.due_date).toEqual(new Date(2026, 10, 3));
+    expect(rows[1].errors).toEqual(['Status "Someday" isn\'t in the workflow']);
+    expect(rows[2]).toMatchObject({ values: null, errors: ['Its parent task has errors'] });
+    expect(rows[3].errors).toEqual(['Due date "soonish" isn\'t a date']);
+  });
+});
@@ -0,0 +1,458 @@
+import { isValid, parse, parseISO } from 'date-fns';
+import { Workflow, getTags, createTag, createTasks, addTaskTags } from './supabase';
+import { PRIORITY_ALIASES } from './search';
+import { getInitialStatus, resolveStatusKeys } from './workflow';
+import { TaskFieldsValues, taskFieldsSchema } from './validation';
+
+export type ImportSource = 'csv' | 'todoist' | 'trello';
+
+export type ImportField = 'title' | 'description' | 'status' | 'priority' | 'due_date' | 'tags';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'title', label: 'Title', required: true },
+  { field: 'description', label: 'Description' },
+  { field: 'status', label: 'Status' },
+  { field: 'priority', label: 'Priority' },
+  { field: 'due_date', label: 'Due date' },
+  { field: 'tags', label: 'Tags' },
+];
+
+// Index of the CSV column that feeds each field
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+// A task as read from the source file, before validation
+export type RawImportRow = {
+  key: string;
+  // Where the row came from, e.g. "Row 12" or a Trello list, for the preview
+  source: string;
+  title: string;
+  description?: string;
+  status?: string;
+  priority?: string | number;
+  due_date?: string | null;
+  tags: string[];
+  parentKey?: string | null;
+  // Problems that don't stop the row from being imported
+  warnings?: string[];
+};
+
+export type ImportRow = RawImportRow & {
+  values: TaskFieldsValues | null;
+  errors: string[];
+};
+
+export type CsvData = {
+  headers: string[];
+  rows: string[][];
+};
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'yyyy-MM-dd HH:mm', 'MM/dd/yyyy', 'M/d/yyyy', 'dd.MM.yyyy', 'MMM d yyyy', 'MMM d, yyyy'];
+
+// Accepts ISO timestamps and the day formats spreadsheets commonly produce
+const parseDueDate = (value: string) => {
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+
+  for (const dateFormat of DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+    if (isValid(date)) return date;
+  }
+
+  return null;
+};
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks
+export const parseCsv = (text: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const HEADER_GUESSES: Record<ImportField, RegExp> = {
+  title: /^(title|name|task|content|summary|subject)$/i,
+  description: /^(description|desc|notes?|details|body)$/i,
+  status: /^(status|state|completed|done)$/i,
+  priority: /^(priority|importance)$/i,
+  due_date: /^(due|due[ _]?date|deadline|date)$/i,
+  tags: /^(tags?|labels?|categor(y|ies))$/i,
+};
+
+// Pre-selects the columns whose headers look like task fields
+export const guessColumnMapping = (headers: string[]) => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field }) => {
+    const index = headers.findIndex(header => HEADER_GUESSES[field].test(header.trim()));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+};
+
+const splitTags = (value: string) =>
+  value.split(/[,;|]/).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean);
+
+export const csvToImportRows = ({ rows }: CsvData, mapping: ColumnMapping): RawImportRow[] => {
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] === undefined ? '' : (row[mapping[field]] || '').trim();
+
+  return rows.map((row, index) => ({
+    key: `row-${index}`,
+    // +2: one for the header and one because spreadsheets count from 1
+    source: `Row ${index + 2}`,
+    title: cell(row, 'title'),
+    description: cell(row, 'description'),
+    status: cell(row, 'status'),
+    priority: cell(row, 'priority'),
+    due_date: cell(row, 'due_date') || null,
+    tags: splitTags(cell(row, 'tags')),
+  }));
+};
+
+// Todoist numbers priorities the other way round: p1 is the most urgent
+const fromTodoistPriority = (priority: number, highest: number) => {
+  if (priority === highest) return 3;
+  if (Math.abs(priority - highest) === 1) return 2;
+  return 1;
+};
+
+// Todoist keeps labels in the task text as "@label"
+const extractTodoistLabels = (content: string) => {
+  const labels = (content.match(/(^|\s)@[\w-]+/g) || []).map(label => label.trim().slice(1));
+  const title = content.replace(/(^|\s)@[\w-]+/g, '').trim();
+  return { title, labels };
+};
+
+// Todoist writes due dates in the user's own words ("every monday"), so only plain dates survive
+const readTodoistDate = (value: string | null | undefined, row: Pick<RawImportRow, 'warnings'>) => {
+  if (!value) return null;
+  if (parseDueDate(value)) return value;
+
+  row.warnings = [...(row.warnings || []), `Due date "${value}" couldn't be read and was left empty`];
+  return null;
+};
+
+// Todoist CSV exports: TYPE, CONTENT, DESCRIPTION, PRIORITY, INDENT, ..., DATE. Subtasks are
+// marked by a deeper INDENT than the task above them, and notes belong to the task above.
+export const parseTodoistCsv = ({ headers, rows }: CsvData): RawImportRow[] => {
+  const column = (name: string) => headers.findIndex(header => header.trim().toUpperCase() === name);
+  const [type, content, description, priority, indent, date] =
+    ['TYPE', 'CONTENT', 'DESCRIPTION', 'PRIORITY', 'INDENT', 'DATE'].map(column);
+
+  if (type === -1 || content === -1) {
+    throw new Error('This doesn\'t look like a Todoist CSV export (no TYPE and CONTENT columns)');
+  }
+
+  const result: RawImportRow[] = [];
+  // The last task seen at each indent level, to find parents
+  const parents: string[] = [];
+
+  rows.forEach((row, index) => {
+    const rowType = (row[type] || '').trim().toLowerCase();
+    const previous = result[result.length - 1];
+
+    if (rowType === 'note' && previous) {
+      previous.description = [previous.description, row[content]].filter(Boolean).join('\n\n');
+      return;
+    }
+    if (rowType !== 'task') return;
+
+    const level = Math.max(1, Number(row[indent]) || 1);
+    const { title, labels } = extractTodoistLabels(row[content] || '');
+    const importRow: RawImportRow = {
+      key: `row-${index}`,
+      source: `Row ${index + 2}`,
+      title,
+      description: description === -1 ? '' : row[description],
+      status: '',
+      priority: fromTodoistPriority(Number(row[priority]) || 4, 1),
+      tags: labels,
+      parentKey: level > 1 ? parents[level - 2] || null : null,
+    };
+    importRow.due_date = readTodoistDate(date === -1 ? null : row[date], importRow);
+
+    parents[level - 1] = importRow.key;
+    parents.length = level;
+    result.push(importRow);
+  });
+
+  return result;
+};
+
+type TodoistItem = {
+  id: string | number;
+  content: string;
+  description?: string;
+  priority?: number;
+  due?: { date?: string; string?: string } | null;
+  checked?: boolean | number;
+  is_completed?: boolean;
+  labels?: (string | number)[];
+  parent_id?: string | number | null;
+  is_deleted?: boolean | number;
+};
+
+// Todoist JSON: a sync backup ({ items, labels }) or a plain array of tasks from the REST API
+export const parseTodoistJson = (data: unknown): RawImportRow[] => {
+  const backup = data as { items?: TodoistItem[]; tasks?: TodoistItem[]; labels?: { id: string | number; name: string }[] };
+  const items = Array.isArray(data) ? data as TodoistItem[] : backup.items || backup.tasks;
+
+  if (!Array.isArray(items)) {
+    throw new Error('This doesn\'t look like a Todoist export (no tasks found)');
+  }
+
+  // Older backups refer to labels by id
+  const labelNames = new Map((backup.labels || []).map(label => [String(label.id), label.name]));
+  const ids = new Set(items.map(item => String(item.id)));
+
+  return items.filter(item => !item.is_deleted).map(item => {
+    const row: RawImportRow = {
+      key: String(item.id),
+      source: 'Todoist',
+      title: (item.content || '').trim(),
+      description: item.description || '',
+      status: item.checked || item.is_completed ? 'done' : '',
+      priority: fromTodoistPriority(item.priority || 1, 4),
+      tags: (item.labels || []).map(label => labelNames.get(String(label)) || String(label)),
+      parentKey: item.parent_id && ids.has(String(item.parent_id)) ? String(item.parent_id) : null,
+    };
+    row.due_date = readTodoistDate(item.due?.date, row);
+    return row;
+  });
+};
+
+type TrelloBoard = {
+  lists?: { id: string; name: string; closed?: boolean }[];
+  cards?: {
+    id: string;
+    name: string;
+    desc?: string;
+    due?: string | null;
+    dueComplete?: boolean;
+    closed?: boolean;
+    idList: string;
+    labels?: { name?: string; color?: string }[];
+  }[];
+  checklists?: {
+    idCard: string;
+    checkItems?: { id: string; name: string; state: 'complete' | 'incomplete' }[];
+  }[];
+};
+
+// Trello has no statuses, so they are read from the list a card sits in: a list named after a
+// status goes to that status, otherwise the name is matched to a kind of status
+const statusFromTrelloList = (listName: string, workflow: Workflow) => {
+  const kind = /done|complete|finished|closed/i.test(listName) ? 'done'
+    : /doing|progress|review|active|started/i.test(listName) ? 'started'
+    : '';
+  return resolveStatusKeys(workflow, listName)[0] || resolveStatusKeys(workflow, kind)[0] || '';
+};
+
+// Trello board JSON (Menu → Print, export and share → Export as JSON). Archived cards and lists
+// are skipped; checklist items become subtasks of their card.
+export const parseTrelloJson = (data: unknown, workflow: Workflow): RawImportRow[] => {
+  const board = data as TrelloBoard;
+  if (!Array.isArray(board?.cards) || !Array.isArray(board?.lists)) {
+    throw new Error('This doesn\'t look like a Trello board export (no cards or lists found)');
+  }
+
+  const lists = new Map(board.lists.filter(list => !list.closed).map(list => [list.id, list.name]));
+  const cards = board.cards.filter(card => !card.closed && lists.has(card.idList));
+  const cardIds = new Set(cards.map(card => card.id));
+
+  const rows: RawImportRow[] = cards.map(card => ({
+    key: card.id,
+    source: lists.get(card.idList),
+    title: (card.name || '').trim(),
+    description: card.desc || '',
+    status: card.dueComplete ? 'done' : statusFromTrelloList(lists.get(card.idList), workflow),
+    priority: 1,
+    due_date: card.due || null,
+    tags: (card.labels || []).map(label => label.name || label.color).filter(Boolean),
+  }));
+
+  (board.checklists || [])
+    .filter(checklist => cardIds.has(checklist.idCard))
+    .forEach(checklist => {
+      (checklist.checkItems || []).forEach(item => {
+        rows.push({
+          key: item.id,
+          source: 'Checklist',
+          title: (item.name || '').trim(),
+          status: item.state === 'complete' ? 'done' : '',
+          priority: 1,
+          tags: [],
+          parentKey: checklist.idCard,
+        });
+      });
+    });
+
+  return rows;
+};
+
+// Rows without a status start where new tasks do; unknown ones are kept as typed and reported
+const normalizeStatus = (value: string | undefined, workflow: Workflow) => {
+  const status = (value || '').trim();
+  if (!status) return getInitialStatus(workflow);
+  return resolveStatusKeys(workflow, status)[0] || status;
+};
+
+const normalizePriority = (value: string | number | undefined) => {
+  if (typeof value === 'number') return value;
+  const priority = (value || '').trim().toLowerCase();
+  if (!priority) return 1;
+  return PRIORITY_ALIASES[priority] ?? Number(priority);
+};
+
+// Checks each row against the same rules TaskForm applies. Subtasks of rows that fail are
+// rejected too, since they would have nowhere to go.
+export const validateImportRows = (rows: RawImportRow[], workflow: Workflow): ImportRow[] => {
+  const validated: ImportRow[] = rows.map(row => {
+    const errors: string[] = [];
+    let dueDate: Date | null = null;
+    const status = normalizeStatus(row.status, workflow);
+
+    if (!workflow.statuses.some(option => option.key === status)) {
+      errors.push(`Status "${status}" isn't in the workflow`);
+    }
+
+    if (row.due_date) {
+      dueDate = parseDueDate(row.due_date);
+      if (!dueDate) errors.push(`Due date "${row.due_date}" isn't a date`);
+    }
+
+    const result = taskFieldsSchema.safeParse({
+      title: row.title.trim(),
+      description: row.description || undefined,
+      status,
+      priority: normalizePriority(row.priority),
+      due_date: dueDate,
+    });
+
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const label = IMPORT_FIELDS.find(({ field }) => field === issue.path[0])?.label;
+        errors.push(label ? `${label}: ${issue.message}` : issue.message);
+      });
+    }
+
+    return { ...row, values: result.success && errors.length === 0 ? result.data : null, errors };
+  });
+
+  const byKey = new Map(validated.map(row => [row.key, row]));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    validated.forEach(row => {
+      const parent = row.parentKey ? byKey.get(row.parentKey) : undefined;
+      if (parent && parent.errors.length > 0 && row.errors.length === 0) {
+        row.errors.push('Its parent task has errors');
+        row.values = null;
+        changed = true;
+      }
+    });
+  }
+
+  return validated;
+};
+
+// Rows per insert request
+const IMPORT_BATCH_SIZE = 100;
+
+// Number of parents above a row, so parents can be inserted before their subtasks
+const getDepth = (row: ImportRow, byKey: Map<string, ImportRow>) => {
+  let depth = 0;
+  let current = row;
+  const seen = new Set<string>();
+  while (current.parentKey && byKey.has(current.parentKey) && !seen.has(current.key)) {
+    seen.add(current.key);
+    current = byKey.get(current.parentKey);
+    depth++;
+  }
+  return depth;
+};
+
+// Creates the valid rows in batches, parents first, along with any tags they need.
+// Reports progress after each batch; rows with errors are skipped.
+export const importTasks = async (rows: ImportRow[], onProgress?: (done: number, total: number) => void) => {
+  const validRows = rows.filter(row => row.values);
+  const byKey = new Map(validRows.map(row => [row.key, row]));
+  const ids = new Map(validRows.map(row => [row.key, crypto.randomUUID()]));
+  const ordered = [...validRows].sort((a, b) => getDepth(a, byKey) - getDepth(b, byKey));
+
+  // Reuse the user's tags by name and create the ones that don't exist yet
+  const tagIds = new Map((await getTags()).map(tag => [tag.name.toLowerCase(), tag.id]));
+  for (const name of new Set(validRows.flatMap(row => row.tags))) {
+    if (!tagIds.has(name.toLowerCase())) {
+      const tag = await createTag(name);
+      tagIds.set(name.toLowerCase(), tag.id);
+    }
+  }
+
+  let done = 0;
+  for (let start = 0; start < ordered.length; start += IMPORT_BATCH_SIZE) {
+    const batch = ordered.slice(start, start + IMPORT_BATCH_SIZE);
+
+    const { error } = await createTasks(batch.map(({ key, parentKey, values }) => ({
+      id: ids.get(key),
+      title: values.title,
+      description: values.description || null,
+      status: values.status,
+      priority: values.priority,
+      due_date: values.due_date ? values.due_date.toISOString() : null,
+      parent_id: parentKey ? ids.get(parentKey) || null : null,
+    })));
+
+    if (error) {
+      throw new Error(`Imported ${done} of ${ordered.length} tasks, then failed: ${error.message}`);
+    }
+
+    const links = batch.flatMap(row =>
+      [...new Set(row.tags.map(name => tagIds.get(name.toLowerCase())))].map(tagId => ({
+        task_id: ids.get(row.key),
+        tag_id: tagId,
+      }))
+    );
+    await addTaskTags(links);
+
+    done += batch.length;
+    onProgress?.(done, ordered.length);
+  }
+
+  return done;
+};
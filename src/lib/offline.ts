@@ -0,0 +1,426 @@
+import { toast } from 'sonner';
+import {
+  Task,
+  Tag,
+  TaskFilters,
+  TaskSort,
+  DEFAULT_TASK_SORT,
+  compareTasks,
+  getCurrentSession,
+  getTaskById,
+  createTasks,
+  updateTask,
+  updateTaskIfUnchanged,
+  deleteTask,
+  setTaskTags,
+  createNextOccurrence,
+  getWorkflow,
+  toTask
+} from './supabase';
+import { isDoneStatus } from './workflow';
+
+// Tasks seen while online are kept in IndexedDB so the list still works without a connection.
+// Changes made offline are queued there too and replayed in order once the browser reconnects.
+
+const DB_NAME = 'taskhero-offline';
+const DB_VERSION = 1;
+const TASKS_STORE = 'tasks';
+const MUTATIONS_STORE = 'mutations';
+
+// The task columns that can be changed offline
+export type OfflineTaskChanges = Partial<Pick<
+  Task,
+  'title' | 'description' | 'status' | 'priority' | 'due_date' | 'assignee_id' | 'parent_id' | 'auto_complete' | 'recurrence' | 'series_id'
+>>;
+
+export type OfflineTaskFields = Pick<Task, 'title' | 'status' | 'priority'> & OfflineTaskChanges;
+
+// baseUpdatedAt is the task's updated_at when it was edited offline; if the server's value has
+// moved on by the time the change is replayed, someone else changed the task in the meantime.
+type QueuedMutation = { id?: number; taskId: string; title: string; queuedAt: string } & (
+  | { type: 'create'; fields: OfflineTaskFields; tagIds: string[] }
+  | { type: 'update'; changes: OfflineTaskChanges; tagIds?: string[]; baseUpdatedAt: string | null }
+  | { type: 'delete'; baseUpdatedAt: string | null }
+);
+
+export type SyncState = {
+  online: boolean;
+  // Offline changes that haven't reached the server yet
+  pending: number;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TASKS_STORE)) {
+          db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+          db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in a single transaction and resolves with its result once the transaction commits
+const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = work(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Sync state is shared by every component through useSyncStatus
+let syncState: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  lastSyncedAt: null,
+};
+const listeners = new Set<() => void>();
+
+const setSyncState = (updates: Partial<SyncState>) => {
+  syncState = { ...syncState, ...updates };
+  listeners.forEach(listener => listener());
+};
+
+export const getSyncState = () => syncState;
+
+export const subscribeToSyncState = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Supabase reports a dropped connection as a fetch TypeError rather than an HTTP status
+export const isNetworkError = (error: unknown) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed/i.test((error as Error)?.message || '');
+
+// Task cache
+
+export const cacheTasks = async (tasks: Task[]) => {
+  if (tasks.length === 0) return;
+  await withStore(TASKS_STORE, 'readwrite', store => {
+    tasks.forEach(({ search_snippet, ...task }) => store.put(task));
+  });
+};
+
+export const removeCachedTasks = async (ids: string[]) => {
+  await withStore(TASKS_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const getCachedTasks = async () =>
+  (await withStore<Task[]>(TASKS_STORE, 'readonly', store => store.getAll())) || [];
+
+// Applies the list's filters and sort to the cached tasks. Search is a plain substring match
+// on the title and description since full-text search runs on the server.
+export const queryCachedTasks = async (filters: TaskFilters = {}, sort: TaskSort = DEFAULT_TASK_SORT) => {
+  const words = (filters.search || '').toLowerCase().split(/\s+/).filter(Boolean);
+  const tagNames = (filters.tagNames || []).map(name => name.toLowerCase());
+
+  return (await getCachedTasks())
+    .filter(task => {
+      const tags = task.tags || [];
+      const text = `${task.title} ${task.description || ''}`.toLowerCase();
+
+      return !task.deleted_at
+        && words.every(word => text.includes(word))
+        && (!filters.status?.length || filters.status.includes(task.status))
+        && (!filters.priority?.length || filters.priority.includes(task.priority))
+        && (!filters.tagIds?.length || tags.some(tag => filters.tagIds.includes(tag.id)))
+        && (!tagNames.length || tags.some(tag => tagNames.includes(tag.name.toLowerCase())))
+        && (!filters.dueFrom || (!!task.due_date && task.due_date >= filters.dueFrom))
+        && (!filters.dueTo || (!!task.due_date && task.due_date <= filters.dueTo))
+        && (!filters.noDueDate || !task.due_date)
+        && (!filters.ownerId || task.user_id === filters.ownerId)
+        && (!filters.assigneeId || task.assignee_id === filters.assigneeId);
+    })
+    .sort(compareTasks(sort));
+};
+
+// Mutation queue
+
+const getQueuedMutations = async () =>
+  (await withStore<QueuedMutation[]>(MUTATIONS_STORE, 'readonly', store => store.getAll())) || [];
+
+const putMutation = async (mutation: QueuedMutation) => {
+  await withStore(MUTATIONS_STORE, 'readwrite', store => store.put(mutation));
+};
+
+const removeMutations = async (ids: number[]) => {
+  await withStore(MUTATIONS_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+const refreshPendingCount = async () => {
+  const count = await withStore<number>(MUTATIONS_STORE, 'readonly', store => store.count());
+  setSyncState({ pending: count ?? 0 });
+};
+
+// Folds a new change into whatever is already queued for the task, so each task replays
+// as at most one create, update or delete
+const enqueue = async (mutation: QueuedMutation) => {
+  const existing = (await getQueuedMutations()).filter(queued => queued.taskId === mutation.taskId);
+  const created = existing.find(queued => queued.type === 'create');
+  const updated = existing.find(queued => queued.type === 'update');
+
+  if (created?.type === 'create') {
+    // The server has never seen this task, so later edits become part of creating it
+    if (mutation.type === 'update') {
+      await putMutation({
+        ...created,
+        title: mutation.title,
+        fields: { ...created.fields, ...mutation.changes },
+        tagIds: mutation.tagIds ?? created.tagIds,
+      });
+    } else if (mutation.type === 'delete') {
+      await removeMutations(existing.map(queued => queued.id));
+    }
+  } else if (updated?.type === 'update' && mutation.type === 'update') {
+    // Keep the original baseUpdatedAt: that is the version the edits were made against
+    await putMutation({
+      ...updated,
+      title: mutation.title,
+      changes: { ...updated.changes, ...mutation.changes },
+      tagIds: mutation.tagIds ?? updated.tagIds,
+    });
+  } else if (updated?.type === 'update' && mutation.type === 'delete') {
+    await removeMutations([updated.id]);
+    await putMutation({ ...mutation, baseUpdatedAt: updated.baseUpdatedAt });
+  } else {
+    await putMutation(mutation);
+  }
+
+  await refreshPendingCount();
+};
+
+export const createTaskOffline = async (fields: OfflineTaskFields, tags: Tag[] = [], id: string = crypto.randomUUID()) => {
+  const { data: { session } } = await getCurrentSession();
+  if (!session) throw new Error('User not authenticated');
+
+  // The id is known up front so the queued create, later edits and subtasks all agree on it
+  const task: Task = {
+    ...fields,
+    id,
+    created_at: new Date().toISOString(),
+    user_id: session.user.id,
+    tags,
+    comment_count: 0,
+    attachment_count: 0,
+  };
+
+  await cacheTasks([task]);
+  await enqueue({
+    type: 'create',
+    taskId: task.id,
+    title: task.title,
+    fields,
+    tagIds: tags.map(tag => tag.id),
+    queuedAt: new Date().toISOString(),
+  });
+  return task;
+};
+
+export const updateTaskOffline = async (task: Task, changes: OfflineTaskChanges, tags?: Tag[]) => {
+  const updatedTask: Task = { ...task, ...changes, tags: tags ?? task.tags };
+
+  await cacheTasks([updatedTask]);
+  await enqueue({
+    type: 'update',
+    taskId: task.id,
+    title: updatedTask.title,
+    changes,
+    tagIds: tags?.map(tag => tag.id),
+    baseUpdatedAt: task.updated_at ?? null,
+    queuedAt: new Date().toISOString(),
+  });
+  return updatedTask;
+};
+
+// Removes the task and its cached subtasks. Resolves to the ids that were removed.
+export const deleteTaskOffline = async (task: Task) => {
+  const cached = await getCachedTasks();
+  const removedIds = [task.id];
+  for (let i = 0; i < removedIds.length; i++) {
+    removedIds.push(...cached.filter(t => t.parent_id === removedIds[i]).map(t => t.id));
+  }
+
+  await removeCachedTasks(removedIds);
+
+  // Subtasks that only exist offline would fail to sync without their parent, so drop them too
+  const queued = await getQueuedMutations();
+  const offlineSubtaskIds = new Set(
+    queued.filter(m => m.type === 'create' && m.taskId !== task.id && removedIds.includes(m.taskId)).map(m => m.taskId)
+  );
+  await removeMutations(queued.filter(m => offlineSubtaskIds.has(m.taskId)).map(m => m.id));
+
+  await enqueue({
+    type: 'delete',
+    taskId: task.id,
+    title: task.title,
+    baseUpdatedAt: task.updated_at ?? null,
+    queuedAt: new Date().toISOString(),
+  });
+  return removedIds;
+};
+
+// Replay
+
+type ReplayResult = 'applied' | 'conflict';
+
+const replayMutation = async (mutation: QueuedMutation): Promise<ReplayResult> => {
+  switch (mutation.type) {
+    case 'create': {
+      const { error } = await createTasks([{ ...mutation.fields, id: mutation.taskId }]);
+      // A duplicate key means an earlier sync got this far before the connection dropped
+      if (error && error.code !== '23505') throw error;
+      if (mutation.tagIds.length > 0) await setTaskTags(mutation.taskId, mutation.tagIds);
+      return 'applied';
+    }
+    case 'update': {
+      const { data, error } = mutation.baseUpdatedAt
+        ? await updateTaskIfUnchanged(mutation.taskId, mutation.changes, mutation.baseUpdatedAt)
+        : await updateTask(mutation.taskId, mutation.changes);
+      if (error) throw error;
+      if (!data) return 'conflict';
+
+      if (mutation.tagIds) await setTaskTags(mutation.taskId, mutation.tagIds);
+
+      // Completing a recurring task schedules its next occurrence, as it does online
+      const task = toTask(data);
+      if (mutation.changes.status && task.recurrence && !task.next_occurrence_id &&
+          isDoneStatus(await getWorkflow(), mutation.changes.status)) {
+        await createNextOccurrence(task);
+      }
+      return 'applied';
+    }
+    case 'delete': {
+      const { data, error } = await getTaskById(mutation.taskId);
+      if (error) throw error;
+      // Already gone, which is what the user wanted
+      if (!data || data.deleted_at) return 'applied';
+      if (mutation.baseUpdatedAt && data.updated_at !== mutation.baseUpdatedAt) return 'conflict';
+
+      const { error: deleteError } = await deleteTask(mutation.taskId);
+      if (deleteError) throw deleteError;
+      return 'applied';
+    }
+  }
+};
+
+let syncInProgress: Promise<void> | null = null;
+
+// Replays queued changes in the order they were made. When a task changed on the server since it
+// was edited offline, the server's version wins and the offline change is dropped. A dropped
+// connection stops the run and leaves the rest of the queue for the next one.
+export const syncPendingMutations = () => {
+  if (!syncInProgress) {
+    syncInProgress = runSync().finally(() => {
+      syncInProgress = null;
+    });
+  }
+  return syncInProgress;
+};
+
+const runSync = async () => {
+  if (!navigator.onLine) return;
+
+  const mutations = await getQueuedMutations();
+  if (mutations.length === 0) return;
+
+  setSyncState({ syncing: true });
+  const conflicts: string[] = [];
+  const failures: string[] = [];
+  let applied = 0;
+
+  try {
+    for (const mutation of mutations) {
+      try {
+        const result = await replayMutation(mutation);
+        if (result === 'conflict') {
+          conflicts.push(mutation.title);
+        } else {
+          applied++;
+        }
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        // The server rejected the change outright (e.g. permissions); retrying won't help
+        console.error('Error syncing offline change:', error);
+        failures.push(`${mutation.title}: ${(error as Error).message}`);
+      }
+      await removeMutations([mutation.id]);
+    }
+  } finally {
+    await refreshPendingCount();
+    setSyncState({ syncing: false, lastSyncedAt: new Date().toISOString() });
+  }
+
+  if (applied > 0) {
+    toast.success(`Synced ${applied} offline ${applied === 1 ? 'change' : 'changes'}`);
+  }
+  if (conflicts.length > 0) {
+    toast.warning(`${conflicts.length} offline ${conflicts.length === 1 ? 'change was' : 'changes were'} not applied`, {
+      description: `Changed by someone else while you were offline, so their version was kept: ${conflicts.join(', ')}`,
+    });
+  }
+  if (failures.length > 0) {
+    toast.error(`Failed to sync ${failures.length} offline ${failures.length === 1 ? 'change' : 'changes'}`, {
+      description: failures.join('; '),
+    });
+  }
+};
+
+// Tracks the connection and syncs whenever it comes back. Returns a cleanup function.
+export const startOfflineSync = () => {
+  const handleOnline = () => {
+    setSyncState({ online: true });
+    syncPendingMutations();
+  };
+  const handleOffline = () => setSyncState({ online: false });
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  setSyncState({ online: navigator.onLine });
+  refreshPendingCount()
+    .then(() => syncPendingMutations())
+    .catch(error => console.error('Error reading offline changes:', error));
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+// Forgets cached tasks and unsynced changes, e.g. when signing out on a shared device
+export const clearOfflineData = async () => {
+  await withStore(TASKS_STORE, 'readwrite', store => store.clear());
+  await withStore(MUTATIONS_STORE, 'readwrite', store => store.clear());
+  await refreshPendingCount();
+};
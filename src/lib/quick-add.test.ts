@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parseQuickAdd } from './quick-add';
+
+// Monday 19 October 2026, 10:00 local time
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+describe('parseQuickAdd', () => {
+  it('reads a date, time, priority and tag out of the title', () => {
+    expect(parseQuickAdd('Pay invoice tomorrow 5pm !high #finance', NOW)).toEqual({
+      title: 'Pay invoice',
+      due_date: new Date(2026, 9, 20, 17, 0),
+      priority: 3,
+      tagNames: ['finance'],
+    });
+  });
+
+  it('leaves the priority unset when none is given', () => {
+    expect(parseQuickAdd('Water plants', NOW)).toEqual({
+      title: 'Water plants',
+      due_date: null,
+      priority: null,
+      tagNames: [],
+    });
+  });
+
+  it('keeps unknown !words in the title', () => {
+    expect(parseQuickAdd('Ship it !now', NOW).title).toBe('Ship it !now');
+    expect(parseQuickAdd('Ship it !2', NOW).priority).toBe(2);
+  });
+
+  it('deduplicates tags regardless of case', () => {
+    expect(parseQuickAdd('Plan #Work #work #home', NOW).tagNames).toEqual(['Work', 'home']);
+  });
+
+  it.each([
+    ['today', new Date(2026, 9, 19)],
+    ['tonight', new Date(2026, 9, 19, 20, 0)],
+    ['tmrw', new Date(2026, 9, 20)],
+    ['in 3 days', new Date(2026, 9, 22)],
+    ['in 2 weeks', new Date(2026, 10, 2)],
+    ['next week', new Date(2026, 9, 26)],
+    ['friday', new Date(2026, 9, 23)],
+    ['next monday', new Date(2026, 9, 26)],
+    ['2026-11-03', new Date(2026, 10, 3)],
+    ['nov 3', new Date(2026, 10, 3)],
+    ['3rd november', new Date(2026, 10, 3)],
+    ['jan 5', new Date(2027, 0, 5)],
+  ])('reads "%s" as a due date', (phrase, expected) => {
+    const result = parseQuickAdd(`Call the bank ${phrase}`, NOW);
+    expect(result.title).toBe('Call the bank');
+    expect(result.due_date).toEqual(expected);
+  });
+
+  it('drops lead words before a date or time', () => {
+    expect(parseQuickAdd('Submit report due friday at 17:30', NOW)).toMatchObject({
+      title: 'Submit report',
+      due_date: new Date(2026, 9, 23, 17, 30),
+    });
+  });
+
+  it('treats a time that has passed today as tomorrow', () => {
+    expect(parseQuickAdd('Stand-up 9am', NOW).due_date).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(parseQuickAdd('Lunch noon', NOW).due_date).toEqual(new Date(2026, 9, 19, 12, 0));
+  });
+
+  it('does not read everyday words as weekdays or months', () => {
+    expect(parseQuickAdd('Wed the sat nav', NOW)).toMatchObject({ title: 'Wed the sat nav', due_date: null });
+    expect(parseQuickAdd('Decide 3 options', NOW)).toMatchObject({ title: 'Decide 3 options', due_date: null });
+  });
+
+  it('ignores impossible dates', () => {
+    expect(parseQuickAdd('Party feb 30', NOW).due_date).toBeNull();
+  });
+
+  it('closes the gap a removed date leaves before punctuation', () => {
+    expect(parseQuickAdd('Email Bob by mon, then archive', NOW).title).toBe('Email Bob, then archive');
+  });
+});
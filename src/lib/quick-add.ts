@@ -0,0 +1,162 @@
+import { addDays, addMonths, addWeeks, isBefore, isValid, nextDay, parseISO, setHours, setMinutes, startOfDay } from 'date-fns';
+import { PRIORITY_ALIASES } from './search';
+
+export type QuickAddResult = {
+  title: string;
+  due_date: Date | null;
+  // Only set when the input names one, so the caller can apply its own default
+  priority: number | null;
+  tagNames: string[];
+};
+
+type Day = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+// Abbreviations that are also everyday words (sun, sat, wed) are left out
+const WEEKDAYS: Record<string, Day> = {
+  sunday: 0,
+  mon: 1, monday: 1,
+  tue: 2, tues: 2, tuesday: 2,
+  wednesday: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4,
+  fri: 5, friday: 5,
+  saturday: 6,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const MONTH_NAMES = 'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+// The hour "tonight" stands for when no time is given
+const TONIGHT_HOUR = 20;
+
+// Words that only introduce a date or time, e.g. "due friday" or "at 5pm"
+const LEAD = '(?:(?:due|on|by|at)\\s+)?';
+
+type Match = { start: number; end: number };
+
+// Finds `pattern` as whole words and returns the match along with where it sits in the input
+const findWords = (input: string, pattern: string): (RegExpExecArray & Match) | null => {
+  const match = new RegExp(`(?:^|\\s)(${LEAD}${pattern})(?=\\s|$|[.,!?])`, 'i').exec(input);
+  if (!match) return null;
+
+  const start = match.index + match[0].indexOf(match[1]);
+  return Object.assign(match, { start, end: start + match[1].length });
+};
+
+const parseTime = (input: string) => {
+  const twelveHour = findWords(input, '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)');
+  if (twelveHour) {
+    const hour = Number(twelveHour[2]) % 12 + (twelveHour[4].toLowerCase() === 'pm' ? 12 : 0);
+    const minute = Number(twelveHour[3] || 0);
+    if (hour < 24 && minute < 60) return { hour, minute, ...twelveHour };
+  }
+
+  const twentyFourHour = findWords(input, '([01]?\\d|2[0-3]):([0-5]\\d)');
+  if (twentyFourHour) return { hour: Number(twentyFourHour[2]), minute: Number(twentyFourHour[3]), ...twentyFourHour };
+
+  const named = findWords(input, '(noon|midnight)');
+  if (named) return { hour: named[2].toLowerCase() === 'noon' ? 12 : 0, minute: 0, ...named };
+
+  return null;
+};
+
+const parseDate = (input: string, today: Date): (Match & { date: Date; tonight?: boolean }) | null => {
+  const relative = findWords(input, '(today|tonight|tomorrow|tmrw?)');
+  if (relative) {
+    const word = relative[2].toLowerCase();
+    return {
+      ...relative,
+      date: word === 'today' || word === 'tonight' ? today : addDays(today, 1),
+      tonight: word === 'tonight',
+    };
+  }
+
+  const inPeriod = findWords(input, 'in\\s+(\\d+)\\s+(days?|weeks?|months?)');
+  if (inPeriod) {
+    const amount = Number(inPeriod[2]);
+    const unit = inPeriod[3].toLowerCase();
+    const date = unit.startsWith('day') ? addDays(today, amount)
+      : unit.startsWith('week') ? addWeeks(today, amount)
+      : addMonths(today, amount);
+    return { ...inPeriod, date };
+  }
+
+  const nextWeek = findWords(input, 'next\\s+week');
+  if (nextWeek) return { ...nextWeek, date: nextDay(today, 1) };
+
+  // A weekday is its next occurrence after today; "next" is accepted but means the same
+  const weekday = findWords(input, `(?:next\\s+)?(${Object.keys(WEEKDAYS).join('|')})`);
+  if (weekday) return { ...weekday, date: nextDay(today, WEEKDAYS[weekday[2].toLowerCase()]) };
+
+  const iso = findWords(input, '(\\d{4}-\\d{2}-\\d{2})');
+  if (iso && isValid(parseISO(iso[2]))) return { ...iso, date: parseISO(iso[2]) };
+
+  // "nov 3" or "3 nov", this year unless that day has passed
+  const monthDay = findWords(input, `(?:(${MONTH_NAMES})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?|(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_NAMES})\\.?)`);
+  if (monthDay) {
+    const month = MONTHS.indexOf((monthDay[2] || monthDay[5]).slice(0, 3).toLowerCase());
+    const day = Number(monthDay[3] || monthDay[4]);
+    let date = new Date(today.getFullYear(), month, day);
+    if (date.getMonth() !== month) return null;
+    if (isBefore(date, today)) date = new Date(today.getFullYear() + 1, month, day);
+    return { ...monthDay, date };
+  }
+
+  return null;
+};
+
+// Reads a one-line task such as "Pay invoice tomorrow 5pm !high #finance":
+// - !high, !medium, !low (or !3, !2, !1) set the priority
+// - #word adds a tag
+// - a day (today, tonight, tomorrow, friday, next week, in 3 days, nov 3, 2026-11-03) and a time
+//   (5pm, 17:30, noon) set the due date; a time alone means today
+// Everything else is the title. Runs entirely in the browser.
+export const parseQuickAdd = (input: string, now = new Date()): QuickAddResult => {
+  const today = startOfDay(now);
+  let rest = ` ${input} `;
+  let priority: number | null = null;
+  const tagNames: string[] = [];
+
+  // Cut matches out one at a time, so a word is never read twice
+  const remove = ({ start, end }: Match) => {
+    rest = `${rest.slice(0, start)} ${rest.slice(end)}`;
+  };
+
+  rest = rest.replace(/(^|\s)!(\w+)(?=\s)/g, (token, space: string, value: string) => {
+    const alias = PRIORITY_ALIASES[value.toLowerCase()];
+    if (alias === undefined) return token;
+    priority = alias;
+    return space;
+  });
+
+  rest = rest.replace(/(^|\s)#([\p{L}\p{N}_-]+)(?=\s)/gu, (_, space: string, name: string) => {
+    if (!tagNames.some(tagName => tagName.toLowerCase() === name.toLowerCase())) tagNames.push(name);
+    return space;
+  });
+
+  const date = parseDate(rest, today);
+  if (date) remove(date);
+
+  const time = parseTime(rest);
+  if (time) remove(time);
+
+  let dueDate: Date | null = null;
+  if (date || time) {
+    dueDate = date ? date.date : today;
+    if (time) {
+      dueDate = setMinutes(setHours(dueDate, time.hour), time.minute);
+      // A time alone that has already passed today means tomorrow
+      if (!date && isBefore(dueDate, now)) dueDate = addDays(dueDate, 1);
+    } else if (date.tonight) {
+      dueDate = setHours(dueDate, TONIGHT_HOUR);
+    }
+  }
+
+  return {
+    // Cutting out a date can leave a space before punctuation, e.g. "Email Bob by mon, then..."
+    title: rest.replace(/\s+/g, ' ').replace(/ ([.,;:!?])(?= |$)/g, '$1').trim(),
+    due_date: dueDate,
+    priority,
+    tagNames,
+  };
+};
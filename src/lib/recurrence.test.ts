@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { describeRecurrence, getNextDueDate } from './recurrence';
+
+// Local time; 19 October 2026 is a Monday
+const at = (month: number, day: number, hour = 0, minute = 0, year = 2026) => new Date(year, month - 1, day, hour, minute);
+
+describe('getNextDueDate', () => {
+  it('repeats daily at the same time', () => {
+    expect(getNextDueDate({ frequency: 'daily' }, at(10, 19, 9), at(10, 19, 10))).toEqual(at(10, 20, 9));
+  });
+
+  it('skips occurrences that have already passed', () => {
+    expect(getNextDueDate({ frequency: 'daily' }, at(10, 10, 9), at(10, 19, 10))).toEqual(at(10, 20, 9));
+  });
+
+  it('skips weekends for weekdays', () => {
+    expect(getNextDueDate({ frequency: 'weekdays' }, at(10, 23, 9), at(10, 23, 12))).toEqual(at(10, 26, 9));
+  });
+
+  it('moves to the next chosen weekday', () => {
+    const rule = { frequency: 'weekly' as const, weekdays: [1, 4] };
+    expect(getNextDueDate(rule, at(10, 19, 9), at(10, 19, 12))).toEqual(at(10, 22, 9));
+    expect(getNextDueDate(rule, at(10, 22, 9), at(10, 22, 12))).toEqual(at(10, 26, 9));
+  });
+
+  it('clamps a monthly day to shorter months and goes back to it afterwards', () => {
+    const rule = { frequency: 'monthly' as const, monthDay: 31 };
+    expect(getNextDueDate(rule, at(1, 31, 9), at(1, 31, 12))).toEqual(at(2, 28, 9));
+    expect(getNextDueDate(rule, at(2, 28, 9), at(2, 28, 12))).toEqual(at(3, 31, 9));
+  });
+
+  it('counts from the completion date for after_completion', () => {
+    const rule = { frequency: 'after_completion' as const, interval: 3 };
+    expect(getNextDueDate(rule, at(10, 10, 17), at(10, 19, 10))).toEqual(at(10, 22, 17));
+    expect(getNextDueDate(rule, null, at(10, 19, 10))).toEqual(at(10, 22));
+  });
+
+  it('starts from the completion day when the task had no due date', () => {
+    expect(getNextDueDate({ frequency: 'daily' }, null, at(10, 19, 10))).toEqual(at(10, 20));
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises each rule', () => {
+    expect(describeRecurrence({ frequency: 'daily' })).toBe('Daily');
+    expect(describeRecurrence({ frequency: 'weekdays' })).toBe('Every weekday');
+    expect(describeRecurrence({ frequency: 'weekly', weekdays: [4, 1] })).toBe('Weekly on Mon, Thu');
+    expect(describeRecurrence({ frequency: 'monthly', monthDay: 3 })).toBe('Monthly on the 3rd');
+    expect(describeRecurrence({ frequency: 'after_completion', interval: 1 })).toBe('1 day after completion');
+    expect(describeRecurrence({ frequency: 'after_completion', interval: 5 })).toBe('5 days after completion');
+  });
+});
@@ -0,0 +1,97 @@
+import { addDays, addMonths, getDaysInMonth, isWeekend, startOfDay, format } from 'date-fns';
+
+export type RecurrenceFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'after_completion';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  // Days between occurrences for 'after_completion'
+  interval?: number;
+  // Days of the week (0 = Sunday) for 'weekly'
+  weekdays?: number[];
+  // Day of the month (1-31) for 'monthly'; clamped to shorter months
+  monthDay?: number;
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const withTimeOf = (date: Date, time: Date) => {
+  const result = new Date(date);
+  result.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), 0);
+  return result;
+};
+
+const monthlyOn = (date: Date, monthDay: number) => {
+  const result = new Date(date);
+  result.setDate(Math.min(monthDay, getDaysInMonth(date)));
+  return result;
+};
+
+// Computes the occurrence that follows `from` according to the rule
+const nextAfter = (rule: RecurrenceRule, from: Date): Date => {
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, 1);
+    case 'weekdays': {
+      let next = addDays(from, 1);
+      while (isWeekend(next)) next = addDays(next, 1);
+      return next;
+    }
+    case 'weekly': {
+      const weekdays = rule.weekdays?.length ? rule.weekdays : [from.getDay()];
+      let next = addDays(from, 1);
+      while (!weekdays.includes(next.getDay())) next = addDays(next, 1);
+      return next;
+    }
+    case 'monthly': {
+      const monthDay = rule.monthDay || from.getDate();
+      const candidate = monthlyOn(from, monthDay);
+      return candidate > from ? candidate : monthlyOn(addMonths(startOfDay(monthlyOn(from, 1)), 1), monthDay);
+    }
+    case 'after_completion':
+    default:
+      return addDays(from, rule.interval || 1);
+  }
+};
+
+/**
+ * Returns the due date of the occurrence after a task that was completed at `completedAt`.
+ * Fixed schedules roll forward from the previous due date and skip dates that have already
+ * passed; 'after_completion' counts from the completion date.
+ */
+export const getNextDueDate = (rule: RecurrenceRule, dueDate: Date | null, completedAt: Date = new Date()) => {
+  if (rule.frequency === 'after_completion') {
+    const next = addDays(startOfDay(completedAt), rule.interval || 1);
+    return dueDate ? withTimeOf(next, dueDate) : next;
+  }
+
+  const base = dueDate || startOfDay(completedAt);
+  let next = nextAfter(rule, base);
+  while (next < startOfDay(addDays(completedAt, 1))) {
+    next = nextAfter(rule, next);
+  }
+  return withTimeOf(next, base);
+};
+
+// Human readable summary, e.g. "Weekly on Mon, Thu"
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  switch (rule.frequency) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return 'Every weekday';
+    case 'weekly':
+      return rule.weekdays?.length
+        ? `Weekly on ${[...rule.weekdays].sort((a, b) => a - b).map(day => WEEKDAY_LABELS[day]).join(', ')}`
+        : 'Weekly';
+    case 'monthly':
+      return rule.monthDay
+        ? `Monthly on the ${format(new Date(2000, 0, rule.monthDay), 'do')}`
+        : 'Monthly';
+    case 'after_completion':
+      return rule.interval === 1
+        ? '1 day after completion'
+        : `${rule.interval || 1} days after completion`;
+    default:
+      return 'Repeats';
+  }
+};
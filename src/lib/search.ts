@@ -0,0 +1,99 @@
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+import type { TaskFilters, Workflow } from './supabase';
+import { DEFAULT_WORKFLOW, resolveStatusKeys } from './workflow';
+
+// Markers the search_tasks function puts around matched words in snippets
+export const SNIPPET_START = '⟦';
+export const SNIPPET_END = '⟧';
+
+export type ParsedSearch = {
+  // Free text left over once the operators are removed
+  text: string;
+  filters: TaskFilters;
+};
+
+export const PRIORITY_ALIASES: Record<string, number> = {
+  '1': 1,
+  low: 1,
+  '2': 2,
+  medium: 2,
+  med: 2,
+  '3': 3,
+  high: 3,
+};
+
+const parseDay = (value: string) => {
+  if (value === 'today') return new Date();
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+// Turns "due:<2026-11-01" style comparisons into an inclusive due range
+const parseDueOperator = (value: string): Pick<TaskFilters, 'dueFrom' | 'dueTo'> | null => {
+  const match = value.match(/^(<=|>=|<|>|=)?(.+)$/);
+  if (!match) return null;
+
+  const [, operator = '=', dayText] = match;
+  const day = parseDay(dayText);
+  if (!day) return null;
+
+  const start = startOfDay(day);
+  const end = endOfDay(day);
+
+  switch (operator) {
+    case '<':
+      return { dueTo: new Date(start.getTime() - 1).toISOString() };
+    case '<=':
+      return { dueTo: end.toISOString() };
+    case '>':
+      return { dueFrom: new Date(end.getTime() + 1).toISOString() };
+    case '>=':
+      return { dueFrom: start.toISOString() };
+    default:
+      return { dueFrom: start.toISOString(), dueTo: end.toISOString() };
+  }
+};
+
+// Splits a search box query into free text and filters. Supported operators: status:completed,
+// priority:3 (or priority:high), due:<2026-11-01 (also <=, >, >=, an exact day or "today") and #tag.
+// Statuses are matched against the workflow by key or name; status:done matches every done status.
+// Anything that doesn't parse is treated as text.
+export const parseSearchQuery = (input: string, workflow: Workflow = DEFAULT_WORKFLOW): ParsedSearch => {
+  const filters: TaskFilters = {};
+  const words: string[] = [];
+
+  input.split(/\s+/).filter(Boolean).forEach(token => {
+    const lower = token.toLowerCase();
+
+    if (lower.startsWith('#') && lower.length > 1) {
+      filters.tagNames = [...(filters.tagNames || []), token.slice(1)];
+      return;
+    }
+
+    const [key, ...rest] = lower.split(':');
+    const value = rest.join(':');
+
+    const statuses = key === 'status' ? resolveStatusKeys(workflow, value) : [];
+    if (statuses.length > 0) {
+      filters.status = [...(filters.status || []), ...statuses];
+      return;
+    }
+
+    if (key === 'priority' && PRIORITY_ALIASES[value]) {
+      filters.priority = [...(filters.priority || []), PRIORITY_ALIASES[value]];
+      return;
+    }
+
+    if (key === 'due') {
+      const range = parseDueOperator(value);
+      if (range) {
+        Object.assign(filters, range);
+        return;
+      }
+    }
+
+    words.push(token);
+  });
+
+  return { text: words.join(' '), filters };
+};
@@ -1,10 +1,46 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import { RecurrenceRule, getNextDueDate } from './recurrence';
+import { SNIPPET_START } from './search';
+import { getInitialStatus, getDoneStatusKeys } from './workflow';
+import { 
+  TagColor, 
+  StatusIcon,
+  ATTACHMENTS_BUCKET, 
+  ATTACHMENT_MAX_SIZE, 
+  ATTACHMENT_ALLOWED_TYPES 
+} from './constants';
 
 // These types should match your Supabase schema
-export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+
+// The key of one of the workflow statuses admins configure in task_statuses
+export type TaskStatus = string;
+
+// Open statuses are work still to do; done statuses count as finished
+export type StatusCategory = 'open' | 'done';
+
+export type WorkflowStatus = {
+  key: TaskStatus;
+  name: string;
+  color: TagColor;
+  icon: StatusIcon;
+  category: StatusCategory;
+  position: number;
+};
+
+export type StatusTransition = {
+  from_status: TaskStatus;
+  to_status: TaskStatus;
+};
+
+// Statuses in board order, and the moves between them that are allowed
+export type Workflow = {
+  statuses: WorkflowStatus[];
+  transitions: StatusTransition[];
+};
 
 export type Task = {
   id: string;
@@ -14,10 +50,76 @@ export type Task = {
   due_date?: string | null;
   priority: number;
   created_at: string;
+  // Set by the database on every write; used to detect changes made by someone else
+  updated_at?: string;
+  user_id: string;
+  assignee_id?: string | null;
+  parent_id?: string | null;
+  auto_complete?: boolean;
+  recurrence?: RecurrenceRule | null;
+  series_id?: string | null;
+  next_occurrence_id?: string | null;
+  deleted_at?: string | null;
+  tags?: Tag[];
+  comment_count?: number;
+  attachment_count?: number;
+  // Tasks that have to be completed before this one can start, and the tasks waiting on this one
+  blocked_by?: TaskLink[];
+  blocks?: TaskLink[];
+  // Set on search results: matching text from the description or comments
+  search_snippet?: string | null;
+};
+
+// The task at the other end of a dependency
+export type TaskLink = Pick<Task, 'id' | 'title' | 'status' | 'deleted_at'>;
+
+export type Tag = {
+  id: string;
+  user_id: string;
+  name: string;
+  color: TagColor;
+  created_at: string;
+};
+
+export type TaskComment = {
+  id: string;
+  task_id: string;
+  user_id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+  author?: { email: string } | null;
+};
+
+export type TaskHistoryAction = 'created' | 'updated' | 'deleted';
+
+// One row per change; updates record the column that changed in `field`
+export type TaskHistoryEntry = {
+  id: string;
+  task_id: string;
+  actor_id: string | null;
+  action: TaskHistoryAction;
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  created_at: string;
+  actor?: { email: string } | null;
+};
+
+export type TaskAttachment = {
+  id: string;
+  task_id: string;
   user_id: string;
-  category?: string | null;
+  file_name: string;
+  file_path: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
 };
 
+// Fields that are stored on the tasks row itself (tags, comments, attachments and dependencies live in their own tables)
+export type TaskFields = Omit<Task, 'id' | 'created_at' | 'updated_at' | 'user_id' | 'tags' | 'comment_count' | 'attachment_count' | 'blocked_by' | 'blocks' | 'search_snippet'>;
+
 export type UserProfile = {
   id: string;
   email: string;
@@ -26,6 +128,124 @@ export type UserProfile = {
   updated_at: string;
 };
 
+// A teammate as everyone can see them, e.g. to pick an assignee
+export type UserSummary = Pick<UserProfile, 'id' | 'email'>;
+
+export type TaskView = 'list' | 'board';
+
+export type TaskSortKey = 'created_at' | 'due_date' | 'priority' | 'title';
+
+export const TASK_SORT_KEYS: TaskSortKey[] = ['created_at', 'due_date', 'priority', 'title'];
+
+export type TaskSort = {
+  key: TaskSortKey;
+  ascending: boolean;
+};
+
+export const DEFAULT_TASK_SORT: TaskSort = { key: 'created_at', ascending: false };
+
+// Everything is optional; dueFrom/dueTo are ISO timestamps and both ends are inclusive.
+// search is full-text; tagNames match the names of tags case-insensitively.
+export type TaskFilters = {
+  search?: string;
+  status?: TaskStatus[];
+  priority?: number[];
+  tagIds?: string[];
+  tagNames?: string[];
+  dueFrom?: string | null;
+  dueTo?: string | null;
+  // Only tasks without a due date
+  noDueDate?: boolean;
+  ownerId?: string | null;
+  assigneeId?: string | null;
+};
+
+// Points just past the last row of a page: its sort value, with the id as a tie-breaker
+export type TaskCursor = {
+  value: string | number | null;
+  id: string;
+};
+
+// What a saved view stores; the task list keeps the same shape in its URL
+export type SavedViewQuery = {
+  search?: string;
+  filters?: TaskFilters;
+  sort?: TaskSort;
+  assignedToMe?: boolean;
+};
+
+export type SavedView = {
+  id: string;
+  user_id: string;
+  name: string;
+  query: SavedViewQuery;
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+  owner?: { email: string } | null;
+};
+
+// A task as a template stores it. Tags are kept by name because every user has their own;
+// text and due dates may hold placeholders such as {{date+7}}.
+export type TemplateTask = {
+  title: string;
+  description?: string;
+  priority: number;
+  auto_complete?: boolean;
+  due_date?: string | null;
+  tags?: { name: string; color: TagColor }[];
+  subtasks?: TemplateTask[];
+};
+
+export type TaskTemplate = {
+  id: string;
+  user_id: string;
+  name: string;
+  content: TemplateTask;
+  // Published to the whole organization by an admin
+  shared: boolean;
+  created_at: string;
+  updated_at: string;
+  owner?: { email: string } | null;
+};
+
+export type TaskQuery = {
+  filters?: TaskFilters;
+  sort?: TaskSort;
+  cursor?: TaskCursor | null;
+  // Without a limit every matching task is returned
+  limit?: number;
+};
+
+// One set of changes applied to many tasks by bulkUpdateTasks. due_date: null clears the date;
+// user_id hands the tasks to a new owner and is only accepted from admins; delete moves them to the Trash.
+export type BulkTaskChanges = {
+  status?: TaskStatus;
+  priority?: number;
+  due_date?: string | null;
+  user_id?: string;
+  add_tag_id?: string;
+  remove_tag_id?: string;
+  delete?: true;
+};
+
+export type BulkTaskResult = {
+  task_id: string;
+  succeeded: boolean;
+  message: string | null;
+};
+
+// An insert, update or delete on tasks made in another tab or by another user
+export type TaskChange = RealtimePostgresChangesPayload<Tables<'tasks'>>;
+
+export type UserPreferences = {
+  user_id: string;
+  task_view: TaskView;
+  trash_retention_days: number;
+  pinned_view_ids: string[];
+  updated_at: string;
+};
+
 export type Invitation = {
   id: string;
   email: string;
@@ -121,6 +341,48 @@ export const isAdmin = async () => {
   return role === 'admin';
 };
 
+// User preferences
+export const getUserPreferences = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) return null;
+  
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('*')
+    .eq('user_id', user.id)
+    .maybeSingle();
+    
+  if (error) {
+    console.error('Error fetching user preferences:', error);
+    return null;
+  }
+  
+  return data as UserPreferences | null;
+};
+
+export const updateUserPreferences = async (updates: Partial<Omit<UserPreferences, 'user_id' | 'updated_at'>>) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .upsert({
+      ...updates,
+      user_id: user.id,
+      updated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+    
+  if (error) {
+    console.error('Error updating user preferences:', error);
+    throw error;
+  }
+  
+  return data as UserPreferences;
+};
+
 // Invitation management
 export const createInvitation = async (email: string, role: 'admin' | 'user' = 'user') => {
   const token = generateToken();
@@ -281,8 +543,98 @@ const generateToken = () => {
          Math.random().toString(36).substring(2, 15);
 };
 
+// Selects a task together with its tags through the task_tags junction, and its comment and attachment counts
+// Both ends of task_dependencies point at tasks, so each embed names the foreign key it follows
+const TASK_LINK_SELECT = 'id, title, status, deleted_at';
+const BLOCKED_BY_SELECT = `blocked_by:task_dependencies!task_dependencies_task_id_fkey(task:tasks!task_dependencies_blocked_by_id_fkey(${TASK_LINK_SELECT}))` as const;
+const BLOCKS_SELECT = `blocks:task_dependencies!task_dependencies_blocked_by_id_fkey(task:tasks!task_dependencies_task_id_fkey(${TASK_LINK_SELECT}))` as const;
+
+const TASK_SELECT = `*, task_tags(tag:tags(*)), task_comments(count), task_attachments(count), ${BLOCKED_BY_SELECT}, ${BLOCKS_SELECT}` as const;
+
+// Same as TASK_SELECT plus an inner join used only to filter by tag, so the task keeps all of its tags
+const TASK_SELECT_BY_TAG = `${TASK_SELECT}, tag_filter:task_tags!inner(tag_id)` as const;
+
+type TaskLinkRow = { task: Pick<Tables<'tasks'>, 'id' | 'title' | 'status' | 'deleted_at'> | null };
+
+type TaskRow = Tables<'tasks'> & {
+  task_tags?: { tag: Tables<'tags'> | null }[];
+  blocked_by?: TaskLinkRow[];
+  blocks?: TaskLinkRow[];
+  task_comments?: { count: number }[];
+  task_attachments?: { count: number }[];
+  tag_filter?: { tag_id: string }[];
+  search_snippet?: string | null;
+};
+
+// Narrows a raw tasks row to the Task type (status and JSON columns are untyped in the schema)
+export const toTask = ({ task_tags, task_comments, task_attachments, tag_filter, blocked_by, blocks, ...row }: TaskRow): Task => ({
+  ...row,
+  status: row.status,
+  recurrence: row.recurrence as RecurrenceRule | null,
+  tags: (task_tags || []).map(({ tag }) => tag).filter(Boolean) as Tag[],
+  // Linked tasks the user can't see come back as null
+  blocked_by: (blocked_by || []).map(({ task }) => task).filter(Boolean) as TaskLink[],
+  blocks: (blocks || []).map(({ task }) => task).filter(Boolean) as TaskLink[],
+  comment_count: task_comments?.[0]?.count ?? 0,
+  attachment_count: task_attachments?.[0]?.count ?? 0,
+});
+
+// Quotes a value for use inside a PostgREST or() filter, where commas and parentheses are syntax
+const quoteFilterValue = (value: string | number) =>
+  typeof value === 'number' ? String(value) : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Search results are capped rather than paginated since they are ordered by relevance
+const SEARCH_RESULT_LIMIT = 200;
+
+// Resolves tag names to the ids of every visible tag with that name
+const getTagIdsByName = async (names: string[]) => {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id')
+    .or(names.map(name => `name.ilike.${quoteFilterValue(name.replace(/[%_\\]/g, '\\$&'))}`).join(','));
+    
+  if (error) throw error;
+  return data.map(tag => tag.id);
+};
+
+// Keyset condition for the rows that come after the cursor. Nulls always sort last.
+const getCursorFilter = ({ key, ascending }: TaskSort, cursor: TaskCursor) => {
+  const op = ascending ? 'gt' : 'lt';
+  const afterId = `id.${op}.${cursor.id}`;
+  
+  if (cursor.value === null) {
+    return `and(${key}.is.null,${afterId})`;
+  }
+  
+  const value = quoteFilterValue(cursor.value);
+  return `${key}.${op}.${value},and(${key}.eq.${value},${afterId}),${key}.is.null`;
+};
+
+// Orders tasks the way getTasks does, for lists sorted on the client
+export const compareTasks = ({ key, ascending }: TaskSort) => (a: Task, b: Task) => {
+  const direction = ascending ? 1 : -1;
+  const aValue = a[key];
+  const bValue = b[key];
+  
+  // Nulls sort last in either direction, as they do in getTasks; id breaks ties
+  if (aValue == null || bValue == null) {
+    if (aValue == null && bValue == null) return direction * a.id.localeCompare(b.id);
+    return aValue == null ? 1 : -1;
+  }
+  
+  const order = typeof aValue === 'number'
+    ? aValue - (bValue as number)
+    : String(aValue).localeCompare(String(bValue));
+  return direction * (order || a.id.localeCompare(b.id));
+};
+
 // Task CRUD operations
-export const getTasks = async () => {
+export const getTasks = async ({ 
+  filters = {}, 
+  sort = DEFAULT_TASK_SORT, 
+  cursor = null, 
+  limit 
+}: TaskQuery = {}) => {
   const isUserAdmin = await isAdmin();
   const { data: { user } } = await supabase.auth.getUser();
   
@@ -290,30 +642,190 @@ export const getTasks = async () => {
     throw new Error('User not authenticated');
   }
   
-  // If the user is an admin, fetch all tasks, otherwise only fetch their own tasks
-  if (isUserAdmin) {
-    return await supabase
-      .from('tasks')
-      .select('*')
-      .order('created_at', { ascending: false });
-  } else {
-    return await supabase
-      .from('tasks')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
+  // #tag names from the search box are matched against tag ids like the tag filter
+  let tagIds = filters.tagIds || [];
+  if (filters.tagNames?.length) {
+    try {
+      const namedTagIds = await getTagIdsByName(filters.tagNames);
+      tagIds = tagIds.length > 0 ? tagIds.filter(id => namedTagIds.includes(id)) : namedTagIds;
+      // No tag has that name, so nothing can match; filter on an impossible id
+      if (tagIds.length === 0) tagIds = ['00000000-0000-0000-0000-000000000000'];
+    } catch (error) {
+      return { data: null, error, count: null, nextCursor: null };
+    }
+  }
+  
+  // Full-text matches come from the search_tasks function; the rest of the filters still apply on top
+  let searchMatches: { task_id: string; rank: number; snippet: string }[] | null = null;
+  if (filters.search?.trim()) {
+    const { data: matches, error } = await supabase.rpc('search_tasks', {
+      search: filters.search,
+      max_results: SEARCH_RESULT_LIMIT,
+    });
+    if (error) {
+      return { data: null, error, count: null, nextCursor: null };
+    }
+    
+    searchMatches = matches;
+  }
+  
+  const filterByTag = tagIds.length > 0;
+  const select = filterByTag ? TASK_SELECT_BY_TAG : TASK_SELECT;
+  const selectTasks = () => supabase.from('tasks').select(select, { count: 'exact' });
+  
+  // Matched ids go in the body of a tasks_by_id call rather than an id=in.(...) filter, which
+  // could outgrow URL length limits. It returns task rows, so the filters below apply to it as
+  // they do to the table; the builder is only typed as a transform once columns are selected.
+  let query = (searchMatches
+    ? supabase
+        .rpc('tasks_by_id', { task_ids: searchMatches.map(match => match.task_id) }, { count: 'exact' })
+        .select(select) as unknown as ReturnType<typeof selectTasks>
+    : selectTasks())
+    .is('deleted_at', null);
+  
+  // Admins see every task, everyone else only the tasks they own or are assigned
+  if (!isUserAdmin) {
+    query = query.or(`user_id.eq.${user.id},assignee_id.eq.${user.id}`);
+  }
+  
+  if (filters.status?.length) query = query.in('status', filters.status);
+  if (filters.priority?.length) query = query.in('priority', filters.priority);
+  if (filterByTag) query = query.in('tag_filter.tag_id', tagIds);
+  if (filters.dueFrom) query = query.gte('due_date', filters.dueFrom);
+  if (filters.dueTo) query = query.lte('due_date', filters.dueTo);
+  if (filters.noDueDate) query = query.is('due_date', null);
+  if (filters.ownerId) query = query.eq('user_id', filters.ownerId);
+  if (filters.assigneeId) query = query.eq('assignee_id', filters.assigneeId);
+  
+  // Search results arrive in one batch, so they skip the cursor
+  if (cursor && !searchMatches) query = query.or(getCursorFilter(sort, cursor));
+  
+  // id breaks ties so the cursor always points at a unique position
+  query = query
+    .order(sort.key, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: sort.ascending });
+  
+  // Fetch one extra row to find out whether there is another page
+  if (limit && !searchMatches) query = query.limit(limit + 1);
+  
+  const { data, error, count } = await query;
+  if (error) {
+    return { data: null, error, count: null, nextCursor: null };
+  }
+  
+  // The select string is picked at runtime, so the row type has to be asserted
+  const hasMore = !!limit && !searchMatches && data.length > limit;
+  let rows = (hasMore ? data.slice(0, limit) : data) as unknown as TaskRow[];
+  const last = rows[rows.length - 1];
+  const nextCursor: TaskCursor | null = hasMore ? { value: last[sort.key], id: last.id } : null;
+  
+  if (searchMatches) {
+    const matchesById = new Map(searchMatches.map(match => [match.task_id, match]));
+    rows = rows.map(row => {
+      const snippet = matchesById.get(row.id)?.snippet;
+      // ts_headline falls back to the start of the text when only the title matched
+      return { ...row, search_snippet: snippet?.includes(SNIPPET_START) ? snippet : null };
+    });
+    
+    // Unless another order was picked, the best matches come first
+    if (sort.key === DEFAULT_TASK_SORT.key && sort.ascending === DEFAULT_TASK_SORT.ascending) {
+      rows.sort((a, b) => matchesById.get(b.id).rank - matchesById.get(a.id).rank);
+    }
+  }
+  
+  return { data: rows, error: null, count, nextCursor };
+};
+
+// PostgREST caps a single response at 1000 rows by default
+const ALL_TASKS_PAGE_SIZE = 1000;
+
+// Every task matching the query, fetched page by page. Used for exports.
+export const getAllTasks = async ({ filters = {}, sort = DEFAULT_TASK_SORT }: Pick<TaskQuery, 'filters' | 'sort'> = {}) => {
+  const tasks: Task[] = [];
+  let cursor: TaskCursor | null = null;
+  
+  do {
+    const { data, error, nextCursor } = await getTasks({ filters, sort, cursor, limit: ALL_TASKS_PAGE_SIZE });
+    
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      throw error;
+    }
+    
+    tasks.push(...data.map(toTask));
+    cursor = nextCursor;
+  } while (cursor);
+  
+  return tasks;
+};
+
+// Calls onChange for every insert and update of a task the current user can see, and for every
+// delete: deletes skip row level security and only carry the task's id. Returns an unsubscribe function.
+export const subscribeToTaskChanges = (onChange: (change: TaskChange) => void) => {
+  // Each subscriber gets its own channel so unsubscribing doesn't cut off the others
+  const channel = supabase
+    .channel(`tasks-${crypto.randomUUID()}`)
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, onChange)
+    .subscribe();
+    
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Tasks in the Trash, most recently deleted first
+export const getTrashedTasks = async () => {
+  const isUserAdmin = await isAdmin();
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  
+  let query = supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .not('deleted_at', 'is', null);
+    
+  if (!isUserAdmin) {
+    query = query.or(`user_id.eq.${user.id},assignee_id.eq.${user.id}`);
   }
+  
+  return await query.order('deleted_at', { ascending: false });
 };
 
+// Resolves to null data rather than an error when the task is missing or hidden by row level security
 export const getTaskById = async (id: string) => {
   return await supabase
     .from('tasks')
-    .select('*')
+    .select(TASK_SELECT)
     .eq('id', id)
-    .single();
+    .maybeSingle();
+};
+
+// Tells a task that doesn't exist apart from one the current user isn't allowed to see
+export const taskExists = async (id: string) => {
+  const { data, error } = await supabase.rpc('task_exists', { task_id: id });
+  
+  if (error) {
+    console.error('Error checking task:', error);
+    throw error;
+  }
+  
+  return data;
+};
+
+export const getSubtasks = async (parentId: string) => {
+  return await supabase
+    .from('tasks')
+    .select(TASK_SELECT)
+    .eq('parent_id', parentId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: true });
 };
 
-export const createTask = async (task: Omit<Task, 'id' | 'created_at' | 'user_id'>) => {
+// The id can be generated by the caller, e.g. to show the task optimistically before it is saved
+export const createTask = async (task: TaskFields & { id?: string }) => {
   const { data: { user } } = await supabase.auth.getUser();
   
   if (!user) throw new Error('User not authenticated');
@@ -326,24 +838,825 @@ export const createTask = async (task: Omit<Task, 'id' | 'created_at' | 'user_id
         user_id: user.id,
       }
     ])
-    .select()
+    .select(TASK_SELECT)
+    .single();
+};
+
+// Inserts a batch of tasks in a single request. Ids are generated by the caller so subtasks
+// can point at parents from an earlier batch.
+export const createTasks = async (tasks: (TaskFields & { id: string })[]) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  
+  if (!user) throw new Error('User not authenticated');
+  
+  return await supabase
+    .from('tasks')
+    .insert(tasks.map(task => ({ ...task, user_id: user.id })))
+    .select('id');
+};
+
+export const updateTask = async (id: string, updates: Partial<TaskFields>) => {
+  return await supabase
+    .from('tasks')
+    .update(updates)
+    .eq('id', id)
+    .select(TASK_SELECT)
     .single();
 };
 
-export const updateTask = async (id: string, updates: Partial<Omit<Task, 'id' | 'created_at' | 'user_id'>>) => {
+// Updates a task only if nobody has written to it since `expectedUpdatedAt`. Resolves to null
+// data (and no error) when the task has changed or is gone.
+export const updateTaskIfUnchanged = async (id: string, updates: Partial<TaskFields>, expectedUpdatedAt: string) => {
   return await supabase
     .from('tasks')
     .update(updates)
     .eq('id', id)
+    .eq('updated_at', expectedUpdatedAt)
+    .select(TASK_SELECT)
+    .maybeSingle();
+};
+
+// Applies the same changes to many tasks in one request. Tasks are updated independently,
+// so the result lists which ones succeeded and why the others failed.
+export const bulkUpdateTasks = async (taskIds: string[], changes: BulkTaskChanges) => {
+  const { data, error } = await supabase.rpc('bulk_update_tasks', { task_ids: taskIds, changes });
+  return { data: data as BulkTaskResult[] | null, error };
+};
+
+// Updates every open occurrence of a recurring series. Due dates are left alone since
+// each occurrence keeps its own schedule.
+export const updateTaskSeries = async (
+  seriesId: string, 
+  updates: Partial<Omit<TaskFields, 'due_date' | 'series_id' | 'next_occurrence_id'>>
+) => {
+  const doneStatuses = getDoneStatusKeys(await getWorkflow());
+  
+  let query = supabase
+    .from('tasks')
+    .update(updates)
+    .eq('series_id', seriesId)
+    .is('deleted_at', null);
+  
+  // Finished occurrences are history and keep the values they had
+  if (doneStatuses.length > 0) query = query.not('status', 'in', `(${doneStatuses.join(',')})`);
+  
+  return await query.select();
+};
+
+// Creates the occurrence that follows a completed recurring task
+export const createNextOccurrence = async (task: Task) => {
+  if (!task.recurrence || task.next_occurrence_id) return null;
+  
+  const nextDueDate = getNextDueDate(
+    task.recurrence, 
+    task.due_date ? new Date(task.due_date) : null
+  );
+  
+  const workflow = await getWorkflow();
+  
+  const { data: nextTask, error } = await supabase
+    .from('tasks')
+    .insert({
+      title: task.title,
+      description: task.description,
+      status: getInitialStatus(workflow),
+      due_date: nextDueDate.toISOString(),
+      priority: task.priority,
+      parent_id: task.parent_id,
+      auto_complete: task.auto_complete,
+      recurrence: task.recurrence,
+      series_id: task.series_id || task.id,
+      user_id: task.user_id,
+      assignee_id: task.assignee_id,
+    })
     .select()
     .single();
+    
+  if (error) {
+    console.error('Error creating next occurrence:', error);
+    throw error;
+  }
+  
+  const tags = task.tags || [];
+  try {
+    await setTaskTags(nextTask.id, tags.map(tag => tag.id));
+    
+    // Link the occurrences so completing this task again does not create a duplicate
+    const { data: linked, error: linkError } = await supabase
+      .from('tasks')
+      .update({ next_occurrence_id: nextTask.id })
+      .eq('id', task.id)
+      .select('id')
+      .maybeSingle();
+    
+    if (linkError) throw linkError;
+    if (!linked) throw new Error('The task could not be linked to its next occurrence');
+  } catch (linkError) {
+    // An unlinked occurrence would be scheduled again on the next completion, so it is removed
+    console.error('Error linking next occurrence:', linkError);
+    await supabase.from('tasks').delete().eq('id', nextTask.id);
+    throw linkError;
+  }
+    
+  return { ...toTask(nextTask), tags };
+};
+
+// Collects the ids of the given tasks and all of their subtasks, however deeply nested
+const getTaskTreeIds = async (ids: string[]) => {
+  const taskIds = [...ids];
+  let frontier = ids;
+  while (frontier.length > 0) {
+    const { data: children } = await supabase
+      .from('tasks')
+      .select('id')
+      .in('parent_id', frontier);
+    frontier = (children || []).map(child => child.id);
+    taskIds.push(...frontier);
+  }
+  return taskIds;
 };
 
+// Moves a task and its subtasks to the Trash. They share one deleted_at so they are restored together;
+// subtasks that were already trashed on their own keep their original timestamp.
 export const deleteTask = async (id: string) => {
+  const taskIds = await getTaskTreeIds([id]);
+  
   return await supabase
     .from('tasks')
-    .delete()
-    .eq('id', id);
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', taskIds)
+    .is('deleted_at', null)
+    .select('id');
+};
+
+// Brings a task back from the Trash together with the subtasks that were trashed with it.
+// A subtask can't come back under a parent that stays in the Trash, since purging the parent
+// would delete it again, so its trashed parents are restored too (without their other subtasks).
+export const restoreTask = async (id: string) => {
+  const { data: task, error } = await supabase
+    .from('tasks')
+    .select('deleted_at, parent_id')
+    .eq('id', id)
+    .single();
+    
+  if (error) return { data: null, error };
+  
+  const ancestorIds: string[] = [];
+  let parentId = task.parent_id;
+  while (parentId) {
+    const { data: parent, error: parentError } = await supabase
+      .from('tasks')
+      .select('id, parent_id, deleted_at')
+      .eq('id', parentId)
+      .maybeSingle();
+      
+    if (parentError) return { data: null, error: parentError };
+    if (!parent?.deleted_at) break;
+    
+    ancestorIds.push(parent.id);
+    parentId = parent.parent_id;
+  }
+  
+  let restoredAncestors: TaskRow[] = [];
+  if (ancestorIds.length > 0) {
+    const { data: ancestors, error: ancestorError } = await supabase
+      .from('tasks')
+      .update({ deleted_at: null })
+      .in('id', ancestorIds)
+      .select(TASK_SELECT);
+      
+    if (ancestorError) return { data: null, error: ancestorError };
+    restoredAncestors = ancestors;
+  }
+  
+  const taskIds = await getTaskTreeIds([id]);
+  
+  const { data, error: restoreError } = await supabase
+    .from('tasks')
+    .update({ deleted_at: null })
+    .in('id', taskIds)
+    .eq('deleted_at', task.deleted_at)
+    .select(TASK_SELECT);
+    
+  if (restoreError) return { data: null, error: restoreError };
+  return { data: [...restoredAncestors, ...data], error: null };
+};
+
+// Permanently deletes tasks; subtasks go with them through the parent_id cascade
+export const purgeTasks = async (ids: string[]) => {
+  // Attachment rows cascade with the task (and its subtasks), but the stored files do not
+  const taskIds = await getTaskTreeIds(ids);
+  
+  const { data: attachments, error: attachmentError } = await supabase
+    .from('task_attachments')
+    .select('file_path')
+    .in('task_id', taskIds);
+    
+  if (attachmentError) return { data: null, error: attachmentError };
+  
+  // When the files can't be removed the tasks are kept, so the purge can be retried instead of
+  // leaving the files in the bucket with nothing pointing at them
+  if (attachments.length > 0) {
+    const { error: storageError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .remove(attachments.map(attachment => attachment.file_path));
+      
+    if (storageError) return { data: null, error: storageError };
+  }
+  
+  return await supabase
+    .from('tasks')
+    .delete()
+    .in('id', ids);
+};
+
+// Tag management
+export const getTags = async () => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('tags')
+    .select('*')
+    .eq('user_id', user.id)
+    .order('name');
+    
+  if (error) {
+    console.error('Error fetching tags:', error);
+    throw error;
+  }
+  
+  return data as Tag[];
+};
+
+export const createTag = async (name: string, color: TagColor = 'gray') => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('tags')
+    .insert({ name: name.trim(), color, user_id: user.id })
+    .select()
+    .single();
+    
+  if (error) {
+    console.error('Error creating tag:', error);
+    throw error;
+  }
+  
+  return data as Tag;
+};
+
+export const updateTag = async (id: string, updates: Partial<Pick<Tag, 'name' | 'color'>>) => {
+  const { data, error } = await supabase
+    .from('tags')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .single();
+    
+  if (error) {
+    console.error('Error updating tag:', error);
+    throw error;
+  }
+  
+  return data as Tag;
+};
+
+export const deleteTag = async (id: string) => {
+  const { error } = await supabase
+    .from('tags')
+    .delete()
+    .eq('id', id);
+    
+  if (error) {
+    console.error('Error deleting tag:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Workflow statuses and transitions
+export const getWorkflow = async (): Promise<Workflow> => {
+  const [statusResult, transitionResult] = await Promise.all([
+    supabase.from('task_statuses').select('*').order('position').order('key'),
+    supabase.from('task_status_transitions').select('*'),
+  ]);
+  
+  const error = statusResult.error || transitionResult.error;
+  if (error) {
+    console.error('Error fetching workflow:', error);
+    throw error;
+  }
+  
+  return {
+    statuses: statusResult.data.map(({ created_at, ...status }) => status as WorkflowStatus),
+    transitions: transitionResult.data,
+  };
+};
+
+export const createWorkflowStatus = async (status: WorkflowStatus) => {
+  const { error } = await supabase
+    .from('task_statuses')
+    .insert(status);
+    
+  if (error) {
+    console.error('Error creating status:', error);
+    // 23505: the key or the name is taken
+    if (error.code === '23505') throw new Error('A status with this name already exists');
+    throw error;
+  }
+  
+  return true;
+};
+
+// The key is what tasks store, so only the presentation and the category can change
+export const updateWorkflowStatus = async (
+  key: TaskStatus, 
+  updates: Partial<Omit<WorkflowStatus, 'key'>>
+) => {
+  const { error } = await supabase
+    .from('task_statuses')
+    .update(updates)
+    .eq('key', key);
+    
+  if (error) {
+    console.error('Error updating status:', error);
+    if (error.code === '23505') throw new Error('A status with this name already exists');
+    throw error;
+  }
+  
+  return true;
+};
+
+export const deleteWorkflowStatus = async (key: TaskStatus) => {
+  const { error } = await supabase
+    .from('task_statuses')
+    .delete()
+    .eq('key', key);
+    
+  if (error) {
+    console.error('Error deleting status:', error);
+    // 23503: tasks (including ones in the Trash) still have this status
+    if (error.code === '23503') throw new Error('Some tasks still have this status. Move them to another status first.');
+    throw error;
+  }
+  
+  return true;
+};
+
+export const setStatusTransition = async (transition: StatusTransition, allowed: boolean) => {
+  const { error } = allowed
+    ? await supabase.from('task_status_transitions').upsert(transition, { ignoreDuplicates: true })
+    : await supabase
+        .from('task_status_transitions')
+        .delete()
+        .eq('from_status', transition.from_status)
+        .eq('to_status', transition.to_status);
+    
+  if (error) {
+    console.error('Error updating status transition:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Replaces the full set of tags on a task
+export const setTaskTags = async (taskId: string, tagIds: string[]) => {
+  const { error: deleteError } = await supabase
+    .from('task_tags')
+    .delete()
+    .eq('task_id', taskId);
+    
+  if (deleteError) {
+    console.error('Error clearing task tags:', deleteError);
+    throw deleteError;
+  }
+  
+  if (tagIds.length === 0) return true;
+  
+  const { error } = await supabase
+    .from('task_tags')
+    .insert(tagIds.map(tagId => ({ task_id: taskId, tag_id: tagId })));
+    
+  if (error) {
+    console.error('Error setting task tags:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Tags many tasks at once, keeping the tags they already have
+export const addTaskTags = async (links: { task_id: string; tag_id: string }[]) => {
+  if (links.length === 0) return true;
+  
+  const { error } = await supabase
+    .from('task_tags')
+    .insert(links);
+    
+  if (error) {
+    console.error('Error adding task tags:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Makes `taskId` wait on `blockedById`. The database rejects links that would form a cycle.
+export const addTaskDependency = async (taskId: string, blockedById: string) => {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .insert({ task_id: taskId, blocked_by_id: blockedById });
+    
+  if (error) {
+    console.error('Error adding task dependency:', error);
+    // 23505: the link already exists
+    if (error.code === '23505') throw new Error('These tasks are already linked');
+    throw error;
+  }
+  
+  return true;
+};
+
+export const removeTaskDependency = async (taskId: string, blockedById: string) => {
+  const { error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('task_id', taskId)
+    .eq('blocked_by_id', blockedById);
+    
+  if (error) {
+    console.error('Error removing task dependency:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Task comments
+export const getTaskComments = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .select('*, author:user_directory(email)')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+    
+  if (error) {
+    console.error('Error fetching comments:', error);
+    throw error;
+  }
+  
+  return data as TaskComment[];
+};
+
+export const createTaskComment = async (taskId: string, body: string) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('task_comments')
+    .insert({ task_id: taskId, user_id: user.id, body: body.trim() })
+    .select('*, author:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error creating comment:', error);
+    throw error;
+  }
+  
+  return data as TaskComment;
+};
+
+export const updateTaskComment = async (id: string, body: string) => {
+  const { data, error } = await supabase
+    .from('task_comments')
+    .update({ 
+      body: body.trim(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .select('*, author:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error updating comment:', error);
+    throw error;
+  }
+  
+  return data as TaskComment;
+};
+
+export const deleteTaskComment = async (id: string) => {
+  const { error } = await supabase
+    .from('task_comments')
+    .delete()
+    .eq('id', id);
+    
+  if (error) {
+    console.error('Error deleting comment:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Saved views
+export const getSavedViews = async () => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*, owner:user_directory(email)')
+    .order('name');
+    
+  if (error) {
+    console.error('Error fetching saved views:', error);
+    throw error;
+  }
+  
+  return data as SavedView[];
+};
+
+export const createSavedView = async (name: string, query: SavedViewQuery, shared = false) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('saved_views')
+    .insert({ user_id: user.id, name: name.trim(), query, shared })
+    .select('*, owner:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error creating saved view:', error);
+    throw error;
+  }
+  
+  return data as SavedView;
+};
+
+export const updateSavedView = async (id: string, updates: Partial<Pick<SavedView, 'name' | 'query' | 'shared'>>) => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*, owner:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error updating saved view:', error);
+    throw error;
+  }
+  
+  return data as SavedView;
+};
+
+export const deleteSavedView = async (id: string) => {
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', id);
+    
+  if (error) {
+    console.error('Error deleting saved view:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Pinned views in the order they were pinned. Ids of views that were deleted or
+// are no longer shared simply drop out.
+export const getPinnedViews = async () => {
+  const preferences = await getUserPreferences();
+  const pinnedIds = preferences?.pinned_view_ids || [];
+  if (pinnedIds.length === 0) return [];
+  
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*, owner:user_directory(email)')
+    .in('id', pinnedIds);
+    
+  if (error) {
+    console.error('Error fetching pinned views:', error);
+    throw error;
+  }
+  
+  const views = data as SavedView[];
+  return pinnedIds
+    .map(id => views.find(view => view.id === id))
+    .filter(Boolean);
+};
+
+export const setViewPinned = async (viewId: string, pinned: boolean) => {
+  const preferences = await getUserPreferences();
+  const pinnedIds = (preferences?.pinned_view_ids || []).filter(id => id !== viewId);
+  
+  return await updateUserPreferences({ 
+    pinned_view_ids: pinned ? [...pinnedIds, viewId] : pinnedIds 
+  });
+};
+
+// Task templates
+export const getTaskTemplates = async () => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*, owner:user_directory(email)')
+    .order('name');
+    
+  if (error) {
+    console.error('Error fetching task templates:', error);
+    throw error;
+  }
+  
+  return data as TaskTemplate[];
+};
+
+export const createTaskTemplate = async (name: string, content: TemplateTask, shared = false) => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  const { data, error } = await supabase
+    .from('task_templates')
+    .insert({ user_id: user.id, name: name.trim(), content, shared })
+    .select('*, owner:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error creating task template:', error);
+    throw error;
+  }
+  
+  return data as TaskTemplate;
+};
+
+export const updateTaskTemplate = async (
+  id: string, 
+  updates: Partial<Pick<TaskTemplate, 'name' | 'content' | 'shared'>>
+) => {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*, owner:user_directory(email)')
+    .single();
+    
+  if (error) {
+    console.error('Error updating task template:', error);
+    throw error;
+  }
+  
+  return data as TaskTemplate;
+};
+
+export const deleteTaskTemplate = async (id: string) => {
+  const { error } = await supabase
+    .from('task_templates')
+    .delete()
+    .eq('id', id);
+    
+  if (error) {
+    console.error('Error deleting task template:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Task history (written by a trigger on tasks, read-only from the client)
+export const getTaskHistory = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_history')
+    .select('*, actor:user_directory(email)')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching task history:', error);
+    throw error;
+  }
+
+  return data as TaskHistoryEntry[];
+};
+
+// Task attachments
+export const validateAttachment = (file: File) => {
+  if (file.size > ATTACHMENT_MAX_SIZE) {
+    return `${file.name} is larger than ${ATTACHMENT_MAX_SIZE / (1024 * 1024)} MB`;
+  }
+  if (!ATTACHMENT_ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+};
+
+export const getTaskAttachments = async (taskId: string) => {
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+    
+  if (error) {
+    console.error('Error fetching attachments:', error);
+    throw error;
+  }
+  
+  return data as TaskAttachment[];
+};
+
+export const uploadTaskAttachment = async (taskId: string, file: File) => {
+  const validationError = validateAttachment(file);
+  if (validationError) throw new Error(validationError);
+  
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('User not authenticated');
+  
+  // Files are grouped by task so storage policies can check access from the path
+  const filePath = `${taskId}/${crypto.randomUUID()}-${file.name}`;
+  
+  const { error: uploadError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .upload(filePath, file, { contentType: file.type });
+    
+  if (uploadError) {
+    console.error('Error uploading attachment:', uploadError);
+    throw uploadError;
+  }
+  
+  const { data, error } = await supabase
+    .from('task_attachments')
+    .insert({
+      task_id: taskId,
+      user_id: user.id,
+      file_name: file.name,
+      file_path: filePath,
+      mime_type: file.type,
+      size: file.size,
+    })
+    .select()
+    .single();
+    
+  if (error) {
+    console.error('Error saving attachment:', error);
+    // Don't leave an orphaned file behind
+    await supabase.storage.from(ATTACHMENTS_BUCKET).remove([filePath]);
+    throw error;
+  }
+  
+  return data as TaskAttachment;
+};
+
+// Signed URLs keep the bucket private; pass `download` to force a download instead of inline display
+export const getAttachmentUrl = async (attachment: TaskAttachment, download = false) => {
+  const { data, error } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .createSignedUrl(attachment.file_path, 60 * 60, download ? { download: attachment.file_name } : undefined);
+    
+  if (error) {
+    console.error('Error creating attachment URL:', error);
+    throw error;
+  }
+  
+  return data.signedUrl;
+};
+
+export const deleteTaskAttachment = async (attachment: TaskAttachment) => {
+  const { error: storageError } = await supabase.storage
+    .from(ATTACHMENTS_BUCKET)
+    .remove([attachment.file_path]);
+    
+  if (storageError) {
+    console.error('Error deleting attachment file:', storageError);
+    throw storageError;
+  }
+  
+  const { error } = await supabase
+    .from('task_attachments')
+    .delete()
+    .eq('id', attachment.id);
+    
+  if (error) {
+    console.error('Error deleting attachment:', error);
+    throw error;
+  }
+  
+  return true;
+};
+
+// Everyone's id and email, sorted by email
+export const getUserDirectory = async () => {
+  const { data, error } = await supabase
+    .from('user_directory')
+    .select('id, email')
+    .order('email');
+
+  if (error) {
+    throw error;
+  }
+
+  return data as UserSummary[];
 };
 
 // For admin operations (getting all users, etc.)
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { Tag, TemplateTask } from './supabase';
+import {
+  countTemplateSubtasks,
+  expandPlaceholders,
+  getMissingTemplateTags,
+  resolveTemplateDueDate,
+  toRelativeDueDate
+} from './templates';
+
+// Monday 19 October 2026, mid-afternoon
+const TODAY = new Date(2026, 9, 19, 15, 30);
+
+const template: TemplateTask = {
+  title: 'Release {{date}}',
+  priority: 2,
+  tags: [{ name: 'Release', color: 'blue' }],
+  subtasks: [
+    {
+      title: 'Freeze',
+      priority: 1,
+      tags: [{ name: 'release', color: 'blue' }, { name: 'QA', color: 'green' }],
+      subtasks: [{ title: 'Tag the build', priority: 1 }],
+    },
+    { title: 'Announce', priority: 1, tags: [{ name: 'comms', color: 'red' }] },
+  ],
+};
+
+describe('expandPlaceholders', () => {
+  it('replaces each placeholder with the day it stands for', () => {
+    expect(expandPlaceholders('Standup {{date}}, review {{ date + 7 }}, prep {{date-1}}', TODAY))
+      .toBe('Standup Oct 19, 2026, review Oct 26, 2026, prep Oct 18, 2026');
+  });
+
+  it('leaves other braces alone', () => {
+    expect(expandPlaceholders('Fill in {{name}}', TODAY)).toBe('Fill in {{name}}');
+  });
+});
+
+describe('resolveTemplateDueDate', () => {
+  it('resolves placeholders to the start of that day', () => {
+    expect(resolveTemplateDueDate('{{date+3}}', TODAY)).toEqual(new Date(2026, 9, 22));
+    expect(resolveTemplateDueDate(' {{DATE}} ', TODAY)).toEqual(new Date(2026, 9, 19));
+  });
+
+  it('keeps fixed dates and drops anything else', () => {
+    expect(resolveTemplateDueDate('2026-12-24T09:00:00.000Z', TODAY)).toEqual(new Date('2026-12-24T09:00:00.000Z'));
+    expect(resolveTemplateDueDate('next week', TODAY)).toBeNull();
+    expect(resolveTemplateDueDate(null, TODAY)).toBeNull();
+  });
+});
+
+describe('toRelativeDueDate', () => {
+  it('counts calendar days from the base date', () => {
+    expect(toRelativeDueDate(new Date(2026, 9, 19, 23, 0).toISOString(), TODAY)).toBe('{{date}}');
+    expect(toRelativeDueDate(new Date(2026, 9, 23, 9, 0).toISOString(), TODAY)).toBe('{{date+4}}');
+    expect(toRelativeDueDate(new Date(2026, 9, 17).toISOString(), TODAY)).toBe('{{date-2}}');
+  });
+
+  it('round-trips through resolveTemplateDueDate', () => {
+    const placeholder = toRelativeDueDate(new Date(2026, 9, 30).toISOString(), TODAY);
+    expect(resolveTemplateDueDate(placeholder, new Date(2026, 10, 2))).toEqual(new Date(2026, 10, 13));
+  });
+});
+
+describe('countTemplateSubtasks', () => {
+  it('counts subtasks at every level', () => {
+    expect(countTemplateSubtasks(template)).toBe(3);
+    expect(countTemplateSubtasks({ title: 'Solo', priority: 1 })).toBe(0);
+  });
+});
+
+describe('getMissingTemplateTags', () => {
+  it("lists each tag the user doesn't have once, regardless of case", () => {
+    const existing = new Map<string, Tag>([
+      ['comms', { id: 'tag-1', name: 'Comms', color: 'red', user_id: 'user-1', created_at: '2026-10-01T00:00:00.000Z' }],
+    ]);
+
+    expect(getMissingTemplateTags(template, existing)).toEqual([
+      { name: 'Release', color: 'blue' },
+      { name: 'QA', color: 'green' },
+    ]);
+  });
+});
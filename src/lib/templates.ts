@@ -0,0 +1,76 @@
+import { addDays, differenceInCalendarDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { Tag, Task, TemplateTask, createTag, getSubtasks, getTags, toTask } from './supabase';
+
+// {{date}}, {{date+7}} or {{date-1}}: today, or that many days from it
+const DATE_PLACEHOLDER = /\{\{\s*date\s*(?:([+-])\s*(\d+))?\s*\}\}/gi;
+
+const placeholderDate = (sign: string | undefined, days: string | undefined, today: Date) =>
+  startOfDay(addDays(today, (sign === '-' ? -1 : 1) * Number(days || 0)));
+
+// Replaces date placeholders in a title or description with the day they stand for
+export const expandPlaceholders = (text: string, today = new Date()) =>
+  text.replace(DATE_PLACEHOLDER, (_, sign, days) => format(placeholderDate(sign, days, today), 'PP'));
+
+// A template due date is a placeholder, or a fixed date for templates that always fall on one day
+export const resolveTemplateDueDate = (value: string | null | undefined, today = new Date()): Date | null => {
+  if (!value) return null;
+
+  const match = new RegExp(`^${DATE_PLACEHOLDER.source}$`, 'i').exec(value.trim());
+  if (match) return placeholderDate(match[1], match[2], today);
+
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+// Turns a due date into a placeholder the same number of days after `base`
+export const toRelativeDueDate = (dueDate: string, base: Date) => {
+  const days = differenceInCalendarDays(new Date(dueDate), base);
+  if (days === 0) return '{{date}}';
+  return `{{date${days > 0 ? '+' : '-'}${Math.abs(days)}}}`;
+};
+
+export const countTemplateSubtasks = (template: TemplateTask): number =>
+  (template.subtasks || []).reduce((count, subtask) => count + 1 + countTemplateSubtasks(subtask), 0);
+
+// Captures a task and its subtasks, leaving out the ones in the Trash. Due dates become relative
+// to when the top task was created, so "created Monday, due Friday" is due four days after use.
+export const buildTemplateTask = async (task: Task, base = new Date(task.created_at)): Promise<TemplateTask> => {
+  const { data, error } = await getSubtasks(task.id);
+  if (error) throw error;
+
+  const subtasks = await Promise.all(data.map(row => buildTemplateTask(toTask(row), base)));
+
+  return {
+    title: task.title,
+    description: task.description || undefined,
+    priority: task.priority,
+    auto_complete: task.auto_complete,
+    due_date: task.due_date ? toRelativeDueDate(task.due_date, base) : null,
+    tags: (task.tags || []).map(({ name, color }) => ({ name, color })),
+    subtasks: subtasks.length > 0 ? subtasks : undefined,
+  };
+};
+
+const collectTemplateTags = (node: TemplateTask): TemplateTask['tags'] =>
+  [...(node.tags || []), ...(node.subtasks || []).flatMap(collectTemplateTags)];
+
+// Tags named in the template that aren't among `tags` yet, each name once
+export const getMissingTemplateTags = (template: TemplateTask, tags: Map<string, Tag>) =>
+  collectTemplateTags(template).filter(({ name }, index, all) =>
+    !tags.has(name.toLowerCase())
+    && all.findIndex(other => other.name.toLowerCase() === name.toLowerCase()) === index
+  );
+
+// The current user's tags for every tag named anywhere in the template, keyed by lowercase name
+// as tag names are unique regardless of case. Missing tags are left out, or created with the
+// template's colour when `createMissing` is set.
+export const resolveTemplateTags = async (template: TemplateTask, createMissing = false) => {
+  const tags = new Map<string, Tag>((await getTags()).map(tag => [tag.name.toLowerCase(), tag]));
+  if (!createMissing) return tags;
+
+  for (const { name, color } of getMissingTemplateTags(template, tags)) {
+    tags.set(name.toLowerCase(), await createTag(name, color));
+  }
+
+  return tags;
+};
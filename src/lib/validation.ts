@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Rules every task has to satisfy, whether it is typed into TaskForm or brought in by an import
+export const taskFieldsSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  // Checked against the configured workflow by the caller, since statuses are data
+  status: z.string().min(1, 'Status is required'),
+  due_date: z.date().optional().nullable(),
+  priority: z.number().min(1).max(3),
+});
+
+export type TaskFieldsValues = z.infer<typeof taskFieldsSchema>;
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TASK_SORT, SavedViewQuery } from './supabase';
+import { isSameViewQuery, paramsToViewQuery, viewQueryToParams } from './views';
+
+const query: SavedViewQuery = {
+  search: 'report',
+  filters: {
+    status: ['pending', 'in_progress'],
+    priority: [3],
+    tagIds: ['tag-1', 'tag-2'],
+    dueFrom: '2026-10-01T00:00:00.000Z',
+    dueTo: null,
+    ownerId: null,
+  },
+  sort: { key: 'due_date', ascending: true },
+  assignedToMe: true,
+};
+
+describe('viewQueryToParams', () => {
+  it('writes only what is set', () => {
+    expect(viewQueryToParams(query, 'view-1').toString()).toBe(
+      'view=view-1&q=report&status=pending%2Cin_progress&priority=3&tags=tag-1%2Ctag-2'
+        + '&due_from=2026-10-01T00%3A00%3A00.000Z&mine=1&sort=due_date%3Aasc'
+    );
+  });
+
+  it('leaves the default sort out of the URL', () => {
+    expect(viewQueryToParams({ sort: DEFAULT_TASK_SORT }).toString()).toBe('');
+  });
+});
+
+describe('paramsToViewQuery', () => {
+  it('reads back what viewQueryToParams wrote', () => {
+    expect(paramsToViewQuery(viewQueryToParams(query))).toEqual(query);
+  });
+
+  it('falls back to the default sort for a column the list cannot sort by', () => {
+    expect(paramsToViewQuery(new URLSearchParams('sort=password:asc')).sort).toEqual(DEFAULT_TASK_SORT);
+    expect(paramsToViewQuery(new URLSearchParams('sort=priority:desc')).sort).toEqual({ key: 'priority', ascending: false });
+  });
+
+  it('leaves the sort unset when the URL has none', () => {
+    expect(paramsToViewQuery(new URLSearchParams('q=x')).sort).toBeUndefined();
+  });
+});
+
+describe('isSameViewQuery', () => {
+  it('ignores differences that produce the same URL', () => {
+    expect(isSameViewQuery({ search: '', filters: {} }, { sort: DEFAULT_TASK_SORT, assignedToMe: false })).toBe(true);
+    expect(isSameViewQuery(query, { ...query, assignedToMe: false })).toBe(false);
+  });
+});
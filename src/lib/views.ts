@@ -0,0 +1,59 @@
+import { DEFAULT_TASK_SORT, SavedViewQuery, TASK_SORT_KEYS, TaskSort, TaskSortKey, TaskStatus } from './supabase';
+
+// Task list state is kept in the URL so any combination of filters can be bookmarked:
+//   ?view=<id>&q=report&status=pending,in_progress&priority=3&tags=<id>,<id>
+//    &due_from=<iso>&due_to=<iso>&owner=<id>&mine=1&sort=due_date:asc
+// A URL carrying only ?view=<id> loads that saved view's query.
+
+const list = (value: string | null) => (value ? value.split(',').filter(Boolean) : undefined);
+
+export const viewQueryToParams = (query: SavedViewQuery, viewId?: string | null) => {
+  const params = new URLSearchParams();
+  const { search, filters = {}, sort, assignedToMe } = query;
+
+  if (viewId) params.set('view', viewId);
+  if (search) params.set('q', search);
+  if (filters.status?.length) params.set('status', filters.status.join(','));
+  if (filters.priority?.length) params.set('priority', filters.priority.join(','));
+  if (filters.tagIds?.length) params.set('tags', filters.tagIds.join(','));
+  if (filters.dueFrom) params.set('due_from', filters.dueFrom);
+  if (filters.dueTo) params.set('due_to', filters.dueTo);
+  if (filters.ownerId) params.set('owner', filters.ownerId);
+  if (assignedToMe) params.set('mine', '1');
+  // The default order is left implicit so equivalent queries produce the same URL
+  if (sort && (sort.key !== DEFAULT_TASK_SORT.key || sort.ascending !== DEFAULT_TASK_SORT.ascending)) {
+    params.set('sort', `${sort.key}:${sort.ascending ? 'asc' : 'desc'}`);
+  }
+
+  return params;
+};
+
+export const paramsToViewQuery = (params: URLSearchParams): SavedViewQuery => {
+  const sortParam = params.get('sort');
+  let sort: TaskSort | undefined;
+  if (sortParam) {
+    const [key, direction] = sortParam.split(':');
+    // A hand-edited or outdated URL could name a column the list can't sort by
+    sort = TASK_SORT_KEYS.includes(key as TaskSortKey)
+      ? { key: key as TaskSortKey, ascending: direction === 'asc' }
+      : DEFAULT_TASK_SORT;
+  }
+
+  return {
+    search: params.get('q') || '',
+    filters: {
+      status: list(params.get('status')) as TaskStatus[] | undefined,
+      priority: list(params.get('priority'))?.map(Number),
+      tagIds: list(params.get('tags')),
+      dueFrom: params.get('due_from'),
+      dueTo: params.get('due_to'),
+      ownerId: params.get('owner'),
+    },
+    sort,
+    assignedToMe: params.get('mine') === '1',
+  };
+};
+
+// Compares two queries the way they would appear in the URL
+export const isSameViewQuery = (a: SavedViewQuery, b: SavedViewQuery) =>
+  viewQueryToParams(a).toString() === viewQueryToParams(b).toString();
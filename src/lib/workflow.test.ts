@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Workflow } from './supabase';
+import {
+  DEFAULT_WORKFLOW,
+  canTransition,
+  getAllowedStatuses,
+  getCompletedStatus,
+  getInitialStatus,
+  getStatus,
+  isDoneStatus,
+  resolveStatusKeys,
+  toStatusKey
+} from './workflow';
+
+// A team workflow with review and two ways of finishing, where done work can't be reopened
+const workflow: Workflow = {
+  statuses: [
+    { key: 'backlog', name: 'Backlog', color: 'gray', icon: 'circle', category: 'open', position: 0 },
+    { key: 'doing', name: 'Doing', color: 'blue', icon: 'clock', category: 'open', position: 1 },
+    { key: 'in_review', name: 'In Review', color: 'purple', icon: 'eye', category: 'open', position: 2 },
+    { key: 'shipped', name: 'Shipped', color: 'green', icon: 'check', category: 'done', position: 3 },
+    { key: 'wont_do', name: "Won't do", color: 'red', icon: 'cancelled', category: 'done', position: 4 },
+  ],
+  transitions: [
+    { from_status: 'backlog', to_status: 'doing' },
+    { from_status: 'backlog', to_status: 'wont_do' },
+    { from_status: 'doing', to_status: 'in_review' },
+    { from_status: 'in_review', to_status: 'doing' },
+    { from_status: 'in_review', to_status: 'shipped' },
+  ],
+};
+
+describe('toStatusKey', () => {
+  it('turns a name into a key', () => {
+    expect(toStatusKey('  In Review ')).toBe('in_review');
+    expect(toStatusKey("Won't-do")).toBe('wont_do');
+  });
+});
+
+describe('getStatus', () => {
+  it('still describes keys missing from the workflow', () => {
+    expect(getStatus(workflow, 'on_hold')).toMatchObject({ name: 'on hold', category: 'open', color: 'gray' });
+    expect(isDoneStatus(workflow, 'wont_do')).toBe(true);
+    expect(isDoneStatus(workflow, 'on_hold')).toBe(false);
+  });
+});
+
+describe('initial and completed statuses', () => {
+  it('uses the first open and the first done status', () => {
+    expect(getInitialStatus(workflow)).toBe('backlog');
+    expect(getCompletedStatus(workflow)).toBe('shipped');
+    expect(getInitialStatus(DEFAULT_WORKFLOW)).toBe('pending');
+    expect(getCompletedStatus(DEFAULT_WORKFLOW)).toBe('completed');
+  });
+});
+
+describe('transitions', () => {
+  it('only allows listed moves, and staying put', () => {
+    expect(canTransition(workflow, 'backlog', 'doing')).toBe(true);
+    expect(canTransition(workflow, 'backlog', 'shipped')).toBe(false);
+    expect(canTransition(workflow, 'shipped', 'shipped')).toBe(true);
+  });
+
+  it('lists the statuses a task can be given', () => {
+    expect(getAllowedStatuses(workflow, 'in_review').map(status => status.key)).toEqual(['doing', 'in_review', 'shipped']);
+    expect(getAllowedStatuses(workflow, 'shipped').map(status => status.key)).toEqual(['shipped']);
+  });
+});
+
+describe('resolveStatusKeys', () => {
+  it('matches keys and names first', () => {
+    expect(resolveStatusKeys(workflow, 'in review')).toEqual(['in_review']);
+    expect(resolveStatusKeys(workflow, 'SHIPPED')).toEqual(['shipped']);
+  });
+
+  it('maps general words onto the workflow', () => {
+    expect(resolveStatusKeys(workflow, 'done')).toEqual(['shipped', 'wont_do']);
+    expect(resolveStatusKeys(workflow, 'todo')).toEqual(['backlog']);
+    expect(resolveStatusKeys(workflow, 'in progress')).toEqual(['doing']);
+    expect(resolveStatusKeys(DEFAULT_WORKFLOW, 'closed')).toEqual(['completed']);
+  });
+
+  it('matches nothing for unknown words', () => {
+    expect(resolveStatusKeys(workflow, 'blocked')).toEqual([]);
+    expect(resolveStatusKeys(workflow, '  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,85 @@
+import type { TaskStatus, Workflow, WorkflowStatus } from './supabase';
+
+// The statuses every installation starts with. Used until the configured workflow has loaded,
+// and when it can't be loaded at all (e.g. offline).
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { key: 'pending', name: 'Pending', color: 'yellow', icon: 'circle', category: 'open', position: 0 },
+    { key: 'in_progress', name: 'In Progress', color: 'blue', icon: 'clock', category: 'open', position: 1 },
+    { key: 'completed', name: 'Completed', color: 'green', icon: 'check', category: 'done', position: 2 },
+  ],
+  transitions: [
+    { from_status: 'pending', to_status: 'in_progress' },
+    { from_status: 'pending', to_status: 'completed' },
+    { from_status: 'in_progress', to_status: 'pending' },
+    { from_status: 'in_progress', to_status: 'completed' },
+    { from_status: 'completed', to_status: 'pending' },
+    { from_status: 'completed', to_status: 'in_progress' },
+  ],
+};
+
+// Search and import words that stand for a kind of status rather than a particular one
+const DONE_ALIASES = ['done', 'complete', 'completed', 'finished', 'closed'];
+const INITIAL_ALIASES = ['pending', 'todo', 'to_do', 'open', 'new'];
+const STARTED_ALIASES = ['in_progress', 'inprogress', 'progress', 'doing', 'started', 'active'];
+
+// Lowercase with runs of spaces and dashes as underscores, so "In Progress" matches in_progress
+const normalizeStatusName = (value: string) => value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+// Turns a status name into a key for a new status, e.g. "In Review" -> in_review
+export const toStatusKey = (name: string) => normalizeStatusName(name).replace(/[^a-z0-9_]/g, '');
+
+// Unknown keys (e.g. a status deleted since the task was cached) still render as something
+export const getStatus = (workflow: Workflow, key: TaskStatus): WorkflowStatus =>
+  workflow.statuses.find(status => status.key === key) || {
+    key,
+    name: key.replace(/_/g, ' '),
+    color: 'gray',
+    icon: 'alert',
+    category: 'open',
+    position: workflow.statuses.length,
+  };
+
+export const isDoneStatus = (workflow: Workflow, key: TaskStatus) => getStatus(workflow, key).category === 'done';
+
+export const getDoneStatusKeys = (workflow: Workflow) =>
+  workflow.statuses.filter(status => status.category === 'done').map(status => status.key);
+
+export const getOpenStatusKeys = (workflow: Workflow) =>
+  workflow.statuses.filter(status => status.category === 'open').map(status => status.key);
+
+// New tasks start in the first open status; moving back to it is how a task is reopened
+export const getInitialStatus = (workflow: Workflow): TaskStatus =>
+  (workflow.statuses.find(status => status.category === 'open') || workflow.statuses[0])?.key;
+
+// The status a task's checkbox completes it to
+export const getCompletedStatus = (workflow: Workflow): TaskStatus =>
+  workflow.statuses.find(status => status.category === 'done')?.key;
+
+export const canTransition = (workflow: Workflow, from: TaskStatus, to: TaskStatus) =>
+  from === to || workflow.transitions.some(transition => transition.from_status === from && transition.to_status === to);
+
+// The statuses a task in `from` can be given, including the one it has
+export const getAllowedStatuses = (workflow: Workflow, from: TaskStatus) =>
+  workflow.statuses.filter(status => canTransition(workflow, from, status.key));
+
+// Matches a word typed in the search box or found in an import against the workflow: a status
+// key or name first, then general words like "done" that stand for every done status
+export const resolveStatusKeys = (workflow: Workflow, value: string): TaskStatus[] => {
+  const normalized = normalizeStatusName(value);
+  if (!normalized) return [];
+
+  const exact = workflow.statuses.find(status =>
+    status.key === normalized || normalizeStatusName(status.name) === normalized
+  );
+  if (exact) return [exact.key];
+
+  if (DONE_ALIASES.includes(normalized)) return getDoneStatusKeys(workflow);
+  if (INITIAL_ALIASES.includes(normalized)) return [getInitialStatus(workflow)].filter(Boolean);
+  if (STARTED_ALIASES.includes(normalized)) {
+    const initial = getInitialStatus(workflow);
+    const started = workflow.statuses.find(status => status.category === 'open' && status.key !== initial);
+    return started ? [started.key] : [];
+  }
+  return [];
+};
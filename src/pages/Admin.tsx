@@ -6,6 +6,7 @@ import InvitationForm from '@/components/InvitationForm';
 import InvitationList from '@/components/InvitationList';
 import TaskList from '@/components/TaskList';
 import Users from '@/components/Users';
+import WorkflowManager from '@/components/WorkflowManager';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { getUserRole } from '@/lib/supabase';
 import { toast } from 'sonner';
@@ -59,7 +60,7 @@ const Admin = () => {
         <div className="space-y-1">
           <h1 className="text-2xl font-semibold tracking-tight">Admin Dashboard</h1>
           <p className="text-muted-foreground">
-            Manage users, invitations, and all tasks
+            Manage users, invitations, all tasks and the task workflow
           </p>
         </div>
         
@@ -68,6 +69,7 @@ const Admin = () => {
           <TabsTrigger value="users">Users management</TabsTrigger>
             <TabsTrigger value="invitations">Invitations</TabsTrigger>
             <TabsTrigger value="tasks">All Tasks</TabsTrigger>
+            <TabsTrigger value="workflow">Workflow</TabsTrigger>
           </TabsList>
 
           <TabsContent value="users" className="mt-4">
@@ -90,6 +92,10 @@ const Admin = () => {
           <TabsContent value="tasks" className="mt-4">
             <TaskList />
           </TabsContent>
+          
+          <TabsContent value="workflow" className="mt-4">
+            <WorkflowManager />
+          </TabsContent>
 
         </Tabs>
       </AnimatedContainer>
@@ -0,0 +1,23 @@
+import React from 'react';
+import Layout from '@/components/Layout';
+import TaskCalendar from '@/components/TaskCalendar';
+import { AnimatedContainer } from '@/components/ui-components';
+
+const Calendar = () => {
+  return (
+    <Layout>
+      <AnimatedContainer className="space-y-6">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold tracking-tight">Calendar</h1>
+          <p className="text-muted-foreground">
+            See your tasks by due date. Drag a task to reschedule it, or click a day to add one.
+          </p>
+        </div>
+        
+        <TaskCalendar />
+      </AnimatedContainer>
+    </Layout>
+  );
+};
+
+export default Calendar;
@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import { getCurrentUser } from '@/lib/supabase';
 import AccountPreferences from '@/components/AccountPreferences';
+import TagManager from '@/components/TagManager';
+import TemplateManager from '@/components/TemplateManager';
 import ChangePasswordModal from '@/components/ChangePasswordModal';
 import { KeyRound } from 'lucide-react';
 
@@ -95,6 +97,12 @@ const Settings = () => {
 
           {/* Preferences */}
           <AccountPreferences />
+
+          {/* Tags */}
+          <TagManager />
+
+          {/* Task templates */}
+          <TemplateManager />
         </div>
       </div>
 
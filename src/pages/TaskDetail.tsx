@@ -0,0 +1,20 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import Layout from '@/components/Layout';
+import TaskDetailView from '@/components/TaskDetailView';
+import { AnimatedContainer } from '@/components/ui-components';
+
+const TaskDetail = () => {
+  const { id } = useParams<{ id: string }>();
+
+  return (
+    <Layout>
+      <AnimatedContainer>
+        {/* Keyed so moving between related tasks starts from a clean state */}
+        <TaskDetailView key={id} taskId={id} />
+      </AnimatedContainer>
+    </Layout>
+  );
+};
+
+export default TaskDetail;
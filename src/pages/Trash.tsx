@@ -0,0 +1,23 @@
+import React from 'react';
+import Layout from '@/components/Layout';
+import TrashList from '@/components/TrashList';
+import { AnimatedContainer } from '@/components/ui-components';
+
+const Trash = () => {
+  return (
+    <Layout>
+      <AnimatedContainer className="space-y-6">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground">
+            Restore deleted tasks or remove them for good. Tasks are purged automatically after the period you choose.
+          </p>
+        </div>
+        
+        <TrashList />
+      </AnimatedContainer>
+    </Layout>
+  );
+};
+
+export default Trash;
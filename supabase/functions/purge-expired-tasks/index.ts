@@ -0,0 +1,62 @@
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const ATTACHMENTS_BUCKET = "task-attachments";
+
+// Keeps each request's id list short enough for a URL
+const BATCH_SIZE = 100;
+
+// Permanently deletes tasks that have been in the Trash longer than their owner's retention
+// period, together with their attachment files. Scheduled daily with pg_cron.
+serve(async () => {
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+
+    const { data: expired, error } = await supabase.rpc("expired_trashed_tasks");
+    if (error) throw error;
+
+    const taskIds: string[] = expired.map((task: { id: string }) => task.id);
+
+    for (let start = 0; start < taskIds.length; start += BATCH_SIZE) {
+      const batch = taskIds.slice(start, start + BATCH_SIZE);
+
+      // Attachment rows cascade with the task, but the stored files do not
+      const { data: attachments, error: attachmentError } = await supabase
+        .from("task_attachments")
+        .select("file_path")
+        .in("task_id", batch);
+      if (attachmentError) throw attachmentError;
+
+      if (attachments.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(ATTACHMENTS_BUCKET)
+          .remove(attachments.map((attachment: { file_path: string }) => attachment.file_path));
+        if (storageError) throw storageError;
+      }
+
+      const { error: deleteError } = await supabase.from("tasks").delete().in("id", batch);
+      if (deleteError) throw deleteError;
+    }
+
+    console.log(`Purged ${taskIds.length} expired tasks`);
+
+    return new Response(JSON.stringify({ purged: taskIds.length }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error purging expired tasks:", error);
+
+    return new Response(
+      JSON.stringify({ error: error.message || "Failed to purge expired tasks" }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json" },
+      }
+    );
+  }
+});
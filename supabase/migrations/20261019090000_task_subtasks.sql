@@ -0,0 +1,10 @@
+-- Subtasks: a task may belong to a parent task. Deleting a parent removes its subtasks.
+alter table public.tasks
+  add column if not exists parent_id uuid references public.tasks(id) on delete cascade,
+  add column if not exists auto_complete boolean not null default false;
+
+create index if not exists tasks_parent_id_idx on public.tasks(parent_id);
+
+-- A task cannot be its own parent
+alter table public.tasks
+  add constraint tasks_parent_not_self check (parent_id is null or parent_id <> id);
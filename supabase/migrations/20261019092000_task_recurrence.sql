@@ -0,0 +1,9 @@
+-- Recurring tasks. Occurrences of the same series share series_id; completing an
+-- occurrence creates the next one and links it through next_occurrence_id so it is
+-- only generated once.
+alter table public.tasks
+  add column if not exists recurrence jsonb,
+  add column if not exists series_id uuid,
+  add column if not exists next_occurrence_id uuid references public.tasks(id) on delete set null;
+
+create index if not exists tasks_series_id_idx on public.tasks(series_id);
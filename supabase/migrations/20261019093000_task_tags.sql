@@ -0,0 +1,90 @@
+-- Tags replace the free-text tasks.category. Each user owns their own tags; a task can
+-- carry any number of them through task_tags.
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  color text not null default 'gray',
+  created_at timestamptz not null default now()
+);
+
+-- Tag names are unique per user regardless of case, so "Work" and "work" cannot drift apart
+create unique index if not exists tags_user_id_name_key on public.tags(user_id, lower(name));
+
+create table if not exists public.task_tags (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  tag_id uuid not null references public.tags(id) on delete cascade,
+  primary key (task_id, tag_id)
+);
+
+create index if not exists task_tags_tag_id_idx on public.task_tags(tag_id);
+
+alter table public.tags enable row level security;
+alter table public.task_tags enable row level security;
+
+create policy "Users can view their own tags"
+  on public.tags for select
+  using (auth.uid() = user_id or public.is_admin(auth.uid()));
+
+create policy "Users can create their own tags"
+  on public.tags for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own tags"
+  on public.tags for update
+  using (auth.uid() = user_id);
+
+create policy "Users can delete their own tags"
+  on public.tags for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can view tags on tasks they can access"
+  on public.task_tags for select
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (t.user_id = auth.uid() or public.is_admin(auth.uid()))
+    )
+  );
+
+create policy "Users can tag tasks they can access"
+  on public.task_tags for insert
+  with check (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (t.user_id = auth.uid() or public.is_admin(auth.uid()))
+    )
+  );
+
+create policy "Users can untag tasks they can access"
+  on public.task_tags for delete
+  using (
+    exists (
+      select 1 from public.tasks t
+      where t.id = task_id
+        and (t.user_id = auth.uid() or public.is_admin(auth.uid()))
+    )
+  );
+
+-- Migrate existing categories: one tag per distinct (case-insensitive) category per user
+insert into public.tags (user_id, name, color)
+select distinct on (user_id, lower(trim(category)))
+  user_id, trim(category), 'purple'
+from public.tasks
+where category is not null and trim(category) <> ''
+order by user_id, lower(trim(category)), created_at
+on conflict do nothing;
+
+insert into public.task_tags (task_id, tag_id)
+select t.id, g.id
+from public.tasks t
+join public.tags g
+  on g.user_id = t.user_id
+ and lower(g.name) = lower(trim(t.category))
+where t.category is not null
+on conflict do nothing;
+
+-- tasks.category is kept for now so the migration can be verified, but the app no longer writes it
+comment on column public.tasks.category is 'Deprecated: replaced by tags/task_tags';
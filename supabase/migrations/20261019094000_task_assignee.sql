@@ -0,0 +1,61 @@
+-- Tasks can be assigned to a teammate other than their creator (user_id)
+alter table public.tasks
+  add column if not exists assignee_id uuid references auth.users(id) on delete set null;
+
+create index if not exists tasks_assignee_id_idx on public.tasks(assignee_id);
+
+-- Single place that decides who may see a task: its owner, its assignee or an admin.
+-- Tables hanging off tasks use this in their policies.
+create or replace function public.can_access_task(task_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.tasks t
+    where t.id = task_id
+      and (t.user_id = auth.uid() or t.assignee_id = auth.uid() or public.is_admin(auth.uid()))
+  );
+$$;
+
+create policy "Assignees can view tasks assigned to them"
+  on public.tasks for select
+  using (auth.uid() = assignee_id);
+
+create policy "Assignees can update tasks assigned to them"
+  on public.tasks for update
+  using (auth.uid() = assignee_id);
+
+-- Everyone needs to see teammates' emails to pick an assignee
+create policy "Authenticated users can view profiles"
+  on public.user_profiles for select
+  to authenticated
+  using (true);
+
+-- Tags on a task follow the task's visibility
+drop policy if exists "Users can view tags on tasks they can access" on public.task_tags;
+drop policy if exists "Users can tag tasks they can access" on public.task_tags;
+drop policy if exists "Users can untag tasks they can access" on public.task_tags;
+
+create policy "Users can view tags on tasks they can access"
+  on public.task_tags for select
+  using (public.can_access_task(task_id));
+
+create policy "Users can tag tasks they can access"
+  on public.task_tags for insert
+  with check (public.can_access_task(task_id));
+
+create policy "Users can untag tasks they can access"
+  on public.task_tags for delete
+  using (public.can_access_task(task_id));
+
+create policy "Users can view tags attached to tasks they can access"
+  on public.tags for select
+  using (
+    exists (
+      select 1 from public.task_tags tt
+      where tt.tag_id = id and public.can_access_task(tt.task_id)
+    )
+  );
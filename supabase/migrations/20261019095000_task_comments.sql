@@ -0,0 +1,30 @@
+-- Discussion threads on tasks
+create table if not exists public.task_comments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  body text not null check (length(trim(body)) > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_comments_task_id_idx on public.task_comments(task_id, created_at);
+
+alter table public.task_comments enable row level security;
+
+create policy "Users can view comments on tasks they can access"
+  on public.task_comments for select
+  using (public.can_access_task(task_id));
+
+create policy "Users can comment on tasks they can access"
+  on public.task_comments for insert
+  with check (auth.uid() = user_id and public.can_access_task(task_id));
+
+-- Authors manage their own comments; admins can moderate any comment
+create policy "Authors and admins can update comments"
+  on public.task_comments for update
+  using (auth.uid() = user_id or public.is_admin(auth.uid()));
+
+create policy "Authors and admins can delete comments"
+  on public.task_comments for delete
+  using (auth.uid() = user_id or public.is_admin(auth.uid()));
@@ -0,0 +1,71 @@
+-- File attachments on tasks. Files live in the private task-attachments bucket under
+-- <task_id>/<file>; task_attachments keeps the metadata shown in the app.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'task-attachments',
+  'task-attachments',
+  false,
+  10485760,
+  array[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp',
+    'application/pdf',
+    'text/plain', 'text/csv',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+on conflict (id) do update
+set file_size_limit = excluded.file_size_limit,
+    allowed_mime_types = excluded.allowed_mime_types;
+
+create table if not exists public.task_attachments (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  file_name text not null,
+  file_path text not null unique,
+  mime_type text not null,
+  size integer not null check (size > 0 and size <= 10485760),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_attachments_task_id_idx on public.task_attachments(task_id);
+
+alter table public.task_attachments enable row level security;
+
+create policy "Users can view attachments on tasks they can access"
+  on public.task_attachments for select
+  using (public.can_access_task(task_id));
+
+create policy "Users can attach files to tasks they can access"
+  on public.task_attachments for insert
+  with check (auth.uid() = user_id and public.can_access_task(task_id));
+
+create policy "Uploaders and admins can delete attachments"
+  on public.task_attachments for delete
+  using (auth.uid() = user_id or public.is_admin(auth.uid()));
+
+-- Storage policies: the first path segment is the task id
+create policy "Users can read attachments on tasks they can access"
+  on storage.objects for select
+  using (
+    bucket_id = 'task-attachments'
+    and public.can_access_task(((storage.foldername(name))[1])::uuid)
+  );
+
+create policy "Users can upload attachments to tasks they can access"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'task-attachments'
+    and public.can_access_task(((storage.foldername(name))[1])::uuid)
+  );
+
+create policy "Uploaders and admins can delete attachment files"
+  on storage.objects for delete
+  using (
+    bucket_id = 'task-attachments'
+    and (owner_id = auth.uid()::text or public.is_admin(auth.uid()))
+  );
+
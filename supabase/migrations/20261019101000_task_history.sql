@@ -0,0 +1,63 @@
+-- Audit trail of every change made to a task.
+-- task_id deliberately has no foreign key so the trail outlives the task it describes.
+create table if not exists public.task_history (
+  id uuid primary key default gen_random_uuid(),
+  task_id uuid not null,
+  actor_id uuid references public.user_profiles(id) on delete set null,
+  action text not null check (action in ('created', 'updated', 'deleted')),
+  field text,
+  old_value jsonb,
+  new_value jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists task_history_task_id_idx on public.task_history(task_id, created_at);
+
+alter table public.task_history enable row level security;
+
+-- Rows are only ever written by the trigger below, so there are no insert/update/delete policies
+create policy "Users can view history of tasks they can access"
+  on public.task_history for select
+  using (public.can_access_task(task_id) or public.is_admin(auth.uid()));
+
+-- Updates produce one row per changed column. actor_id is null for changes made
+-- outside a user session (e.g. migrations or the service role).
+create or replace function public.log_task_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb;
+  new_row jsonb;
+  col text;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_history (task_id, actor_id, action, new_value)
+    values (new.id, auth.uid(), 'created', to_jsonb(new.title));
+    return new;
+  elsif tg_op = 'DELETE' then
+    insert into public.task_history (task_id, actor_id, action, old_value)
+    values (old.id, auth.uid(), 'deleted', to_jsonb(old.title));
+    return old;
+  end if;
+
+  old_row := to_jsonb(old);
+  new_row := to_jsonb(new);
+
+  for col in select jsonb_object_keys(new_row) loop
+    if col not in ('id', 'created_at') and old_row -> col is distinct from new_row -> col then
+      insert into public.task_history (task_id, actor_id, action, field, old_value, new_value)
+      values (new.id, auth.uid(), 'updated', col, old_row -> col, new_row -> col);
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists log_task_changes on public.tasks;
+create trigger log_task_changes
+  after insert or update or delete on public.tasks
+  for each row execute function public.log_task_changes();
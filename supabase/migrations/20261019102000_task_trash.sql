@@ -0,0 +1,11 @@
+-- Deleting a task moves it to the Trash; rows are only removed when purged
+alter table public.tasks
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists tasks_deleted_at_idx on public.tasks(deleted_at)
+  where deleted_at is not null;
+
+-- Days a trashed task is kept before it is purged automatically
+alter table public.user_preferences
+  add column if not exists trash_retention_days integer not null default 30
+    check (trash_retention_days between 1 and 365);
@@ -0,0 +1,68 @@
+-- Full-text search over task titles, descriptions and comments.
+-- The vectors are expression indexes rather than columns so `select *` on tasks stays lean.
+create or replace function public.task_search_vector(title text, description text)
+returns tsvector
+language sql
+immutable
+as $$
+  select setweight(to_tsvector('english', coalesce(title, '')), 'A')
+      || setweight(to_tsvector('english', coalesce(description, '')), 'B');
+$$;
+
+create index if not exists tasks_search_idx
+  on public.tasks using gin (public.task_search_vector(title, description));
+
+create index if not exists task_comments_search_idx
+  on public.task_comments using gin (to_tsvector('english', body));
+
+-- Every word is matched as a prefix, so "rep" finds "report". Matches in comments count
+-- for half as much as matches on the task itself. The snippet marks hits with ⟦ and ⟧,
+-- which the client turns into highlights.
+-- Runs as the caller, so row level security limits results to tasks they can see.
+create or replace function public.search_tasks(search text, max_results integer default 200)
+returns table (task_id uuid, rank real, snippet text)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select to_tsquery('english', string_agg(term || ':*', ' & ')) as query
+    from (
+      select regexp_replace(word, '[^[:alnum:]]+', '', 'g') as term
+      from regexp_split_to_table(search, '\s+') as word
+    ) terms
+    where term <> ''
+  ),
+  matches as (
+    select t.id
+    from public.tasks t, q
+    where public.task_search_vector(t.title, t.description) @@ q.query
+    union
+    select c.task_id
+    from public.task_comments c, q
+    where to_tsvector('english', c.body) @@ q.query
+  )
+  select
+    t.id as task_id,
+    (ts_rank(public.task_search_vector(t.title, t.description), q.query) + coalesce(c.rank, 0))::real as rank,
+    ts_headline(
+      'english',
+      concat_ws(' … ', t.description, c.bodies),
+      q.query,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=18, MinWords=6'
+    ) as snippet
+  from matches m
+  join public.tasks t on t.id = m.id
+  cross join q
+  left join lateral (
+    select
+      sum(ts_rank(to_tsvector('english', tc.body), q.query)) * 0.5 as rank,
+      string_agg(tc.body, ' … ') as bodies
+    from public.task_comments tc
+    where tc.task_id = t.id
+      and to_tsvector('english', tc.body) @@ q.query
+  ) c on true
+  where t.deleted_at is null
+  order by rank desc
+  limit max_results;
+$$;
@@ -0,0 +1,36 @@
+-- Named combinations of search text, filters and sort order for the task list
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  query jsonb not null default '{}'::jsonb,
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists saved_views_user_id_idx on public.saved_views(user_id);
+
+alter table public.saved_views enable row level security;
+
+-- Shared views are visible to everyone, but only their owner can change them
+create policy "Users can view their own and shared views"
+  on public.saved_views for select
+  using (auth.uid() = user_id or shared);
+
+create policy "Users can create their own views"
+  on public.saved_views for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own views"
+  on public.saved_views for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their own views"
+  on public.saved_views for delete
+  using (auth.uid() = user_id);
+
+-- Views pinned to the navigation, in display order. Anyone can pin a view shared with them.
+alter table public.user_preferences
+  add column if not exists pinned_view_ids uuid[] not null default '{}';
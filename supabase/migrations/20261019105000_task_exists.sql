@@ -0,0 +1,12 @@
+-- Row level security hides tasks the caller cannot see, which looks the same as a missing task.
+-- This tells the two apart so a shared link can say "no access" instead of "not found".
+-- It only reveals whether the id exists, never the task itself.
+create or replace function public.task_exists(task_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.tasks t where t.id = task_id);
+$$;
@@ -0,0 +1,73 @@
+-- Applies one set of changes to many tasks in a single round trip and reports the outcome per task,
+-- so the client can say "18 updated, 2 failed". Each task is handled in its own subtransaction:
+-- one failure doesn't undo the others.
+--
+-- changes may contain any of:
+--   status, priority, due_date (null clears it), user_id (new owner), add_tag_id, remove_tag_id
+--   delete: true  moves the tasks and their subtasks to the Trash
+--
+-- Runs as the caller, so row level security decides which tasks may be changed.
+create or replace function public.bulk_update_tasks(task_ids uuid[], changes jsonb)
+returns table (task_id uuid, succeeded boolean, message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  target uuid;
+  trashed_at timestamptz := now();
+begin
+  foreach target in array task_ids loop
+    begin
+      if coalesce((changes->>'delete')::boolean, false) then
+        -- Subtasks trashed along with an earlier task in the list are already taken care of
+        if not exists (select 1 from public.tasks t where t.id = target) then
+          return query select target, false, 'Task not found';
+          continue;
+        end if;
+
+        with recursive tree as (
+          select t.id from public.tasks t where t.id = target
+          union all
+          select t.id from public.tasks t join tree on t.parent_id = tree.id
+        )
+        update public.tasks t
+        set deleted_at = trashed_at
+        where t.id in (select id from tree)
+          and t.deleted_at is null;
+      else
+        update public.tasks t
+        set
+          status = case when changes ? 'status' then changes->>'status' else t.status end,
+          priority = case when changes ? 'priority' then (changes->>'priority')::integer else t.priority end,
+          due_date = case when changes ? 'due_date' then (changes->>'due_date')::timestamptz else t.due_date end,
+          user_id = case when changes ? 'user_id' then (changes->>'user_id')::uuid else t.user_id end
+        where t.id = target
+          and t.deleted_at is null;
+
+        if not found then
+          return query select target, false, 'Task not found or you cannot edit it';
+          continue;
+        end if;
+
+        if changes ? 'add_tag_id' then
+          insert into public.task_tags (task_id, tag_id)
+          values (target, (changes->>'add_tag_id')::uuid)
+          on conflict do nothing;
+        end if;
+
+        if changes ? 'remove_tag_id' then
+          delete from public.task_tags tt
+          where tt.task_id = target
+            and tt.tag_id = (changes->>'remove_tag_id')::uuid;
+        end if;
+      end if;
+
+      return query select target, true, null::text;
+    exception when others then
+      return query select target, false, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
@@ -0,0 +1,60 @@
+-- Keeps tasks.updated_at current on every write so clients can tell whether a task
+-- changed since they last read it (used when replaying edits made offline).
+
+-- updated_at is bookkeeping rather than an edit, so the history trail skips it
+create or replace function public.log_task_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  old_row jsonb;
+  new_row jsonb;
+  col text;
+begin
+  if tg_op = 'INSERT' then
+    insert into public.task_history (task_id, actor_id, action, new_value)
+    values (new.id, auth.uid(), 'created', to_jsonb(new.title));
+    return new;
+  elsif tg_op = 'DELETE' then
+    insert into public.task_history (task_id, actor_id, action, old_value)
+    values (old.id, auth.uid(), 'deleted', to_jsonb(old.title));
+    return old;
+  end if;
+
+  old_row := to_jsonb(old);
+  new_row := to_jsonb(new);
+
+  for col in select jsonb_object_keys(new_row) loop
+    if col not in ('id', 'created_at', 'updated_at') and old_row -> col is distinct from new_row -> col then
+      insert into public.task_history (task_id, actor_id, action, field, old_value, new_value)
+      values (new.id, auth.uid(), 'updated', col, old_row -> col, new_row -> col);
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+-- Backfill before the trigger exists so existing rows keep a stable timestamp
+update public.tasks set updated_at = created_at where updated_at is null;
+
+alter table public.tasks
+  alter column updated_at set default now(),
+  alter column updated_at set not null;
+
+create or replace function public.set_task_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists set_task_updated_at on public.tasks;
+create trigger set_task_updated_at
+  before update on public.tasks
+  for each row execute function public.set_task_updated_at();
@@ -0,0 +1,9 @@
+-- Broadcasts task changes over Supabase Realtime so open task lists update live.
+-- Realtime applies the tasks RLS policies to inserts and updates, so those only reach
+-- subscribers who can see the task. Deletes can't be checked against a row that is gone: they
+-- reach every subscriber and carry only the primary key.
+alter publication supabase_realtime add table public.tasks;
+
+-- Logs the whole old row; Realtime deletes still only carry the primary key, and the
+-- client only needs that (reverted in 20261019115000)
+alter table public.tasks replica identity full;
@@ -0,0 +1,148 @@
+-- Dependencies between tasks: task_id is blocked by blocked_by_id and shouldn't start until
+-- that task is completed. Read the other way round, blocked_by_id blocks task_id.
+create table if not exists public.task_dependencies (
+  task_id uuid not null references public.tasks(id) on delete cascade,
+  blocked_by_id uuid not null references public.tasks(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (task_id, blocked_by_id),
+  constraint task_dependencies_not_self check (task_id <> blocked_by_id)
+);
+
+create index if not exists task_dependencies_blocked_by_id_idx on public.task_dependencies(blocked_by_id);
+
+alter table public.task_dependencies enable row level security;
+
+-- Either end of a link shows it, but adding one means being able to see both tasks
+create policy "Users can view dependencies of tasks they can access"
+  on public.task_dependencies for select
+  using (public.can_access_task(task_id) or public.can_access_task(blocked_by_id));
+
+create policy "Users can link tasks they can access"
+  on public.task_dependencies for insert
+  with check (public.can_access_task(task_id) and public.can_access_task(blocked_by_id));
+
+create policy "Users can unlink tasks they can access"
+  on public.task_dependencies for delete
+  using (public.can_access_task(task_id) or public.can_access_task(blocked_by_id));
+
+-- Rejects a link when the blocking task already waits on the blocked one, directly or through
+-- other tasks. Runs as definer so links on tasks the user can't see still count.
+create or replace function public.check_task_dependency_cycle()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- One check at a time, so two links added together can't close a cycle between them
+  perform pg_advisory_xact_lock(hashtext('task_dependencies'));
+
+  if exists (
+    with recursive upstream as (
+      select d.blocked_by_id as id from public.task_dependencies d where d.task_id = new.blocked_by_id
+      union
+      select d.blocked_by_id from public.task_dependencies d join upstream u on d.task_id = u.id
+    )
+    select 1 from upstream where id = new.task_id
+  ) then
+    raise exception 'This dependency would create a cycle' using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_task_dependency_cycle on public.task_dependencies;
+create trigger check_task_dependency_cycle
+  before insert or update on public.task_dependencies
+  for each row execute function public.check_task_dependency_cycle();
+
+-- Whether a task still waits on a blocker that is neither completed nor in the Trash
+create or replace function public.has_open_blockers(target_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.task_dependencies d
+    join public.tasks b on b.id = d.blocked_by_id
+    where d.task_id = target_id
+      and b.status <> 'completed'
+      and b.deleted_at is null
+  );
+$$;
+
+-- Same as before, except that blocked tasks can't be started or completed in bulk
+create or replace function public.bulk_update_tasks(task_ids uuid[], changes jsonb)
+returns table (task_id uuid, succeeded boolean, message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  target uuid;
+  trashed_at timestamptz := now();
+begin
+  foreach target in array task_ids loop
+    begin
+      if coalesce((changes->>'delete')::boolean, false) then
+        -- Subtasks trashed along with an earlier task in the list are already taken care of
+        if not exists (select 1 from public.tasks t where t.id = target) then
+          return query select target, false, 'Task not found';
+          continue;
+        end if;
+
+        with recursive tree as (
+          select t.id from public.tasks t where t.id = target
+          union all
+          select t.id from public.tasks t join tree on t.parent_id = tree.id
+        )
+        update public.tasks t
+        set deleted_at = trashed_at
+        where t.id in (select id from tree)
+          and t.deleted_at is null;
+      else
+        -- Bulk edits have no way to confirm an override, so blocked tasks stay where they are
+        if changes->>'status' in ('in_progress', 'completed') and public.has_open_blockers(target) then
+          return query select target, false, 'Blocked by unfinished tasks';
+          continue;
+        end if;
+
+        update public.tasks t
+        set
+          status = case when changes ? 'status' then changes->>'status' else t.status end,
+          priority = case when changes ? 'priority' then (changes->>'priority')::integer else t.priority end,
+          due_date = case when changes ? 'due_date' then (changes->>'due_date')::timestamptz else t.due_date end,
+          user_id = case when changes ? 'user_id' then (changes->>'user_id')::uuid else t.user_id end
+        where t.id = target
+          and t.deleted_at is null;
+
+        if not found then
+          return query select target, false, 'Task not found or you cannot edit it';
+          continue;
+        end if;
+
+        if changes ? 'add_tag_id' then
+          insert into public.task_tags (task_id, tag_id)
+          values (target, (changes->>'add_tag_id')::uuid)
+          on conflict do nothing;
+        end if;
+
+        if changes ? 'remove_tag_id' then
+          delete from public.task_tags tt
+          where tt.task_id = target
+            and tt.tag_id = (changes->>'remove_tag_id')::uuid;
+        end if;
+      end if;
+
+      return query select target, true, null::text;
+    exception when others then
+      return query select target, false, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
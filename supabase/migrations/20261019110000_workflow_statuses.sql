@@ -0,0 +1,199 @@
+-- Task statuses become data that admins configure instead of the fixed pending / in_progress /
+-- completed. Each status belongs to a category: open statuses are work still to do, done
+-- statuses count as finished (recurrence, auto-complete, blockers and the calendar rely on it).
+-- tasks.status keeps storing the status key, so existing tasks carry over unchanged.
+create table if not exists public.task_statuses (
+  key text primary key check (key ~ '^[a-z0-9_]+$'),
+  name text not null check (length(trim(name)) > 0),
+  color text not null default 'gray',
+  icon text not null default 'circle',
+  category text not null default 'open' check (category in ('open', 'done')),
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists task_statuses_name_key on public.task_statuses(lower(name));
+
+-- A task may only move between two statuses when the pair is listed here
+create table if not exists public.task_status_transitions (
+  from_status text not null references public.task_statuses(key) on delete cascade,
+  to_status text not null references public.task_statuses(key) on delete cascade,
+  primary key (from_status, to_status),
+  constraint task_status_transitions_not_self check (from_status <> to_status)
+);
+
+insert into public.task_statuses (key, name, color, icon, category, position) values
+  ('pending', 'Pending', 'yellow', 'circle', 'open', 0),
+  ('in_progress', 'In Progress', 'blue', 'clock', 'open', 1),
+  ('completed', 'Completed', 'green', 'check', 'done', 2)
+on conflict (key) do nothing;
+
+-- The built-in statuses keep allowing every move they allowed before
+insert into public.task_status_transitions (from_status, to_status)
+select a.key, b.key
+from public.task_statuses a
+cross join public.task_statuses b
+where a.key <> b.key
+on conflict do nothing;
+
+alter table public.task_statuses enable row level security;
+alter table public.task_status_transitions enable row level security;
+
+create policy "Authenticated users can view task statuses"
+  on public.task_statuses for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage task statuses"
+  on public.task_statuses for all
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+create policy "Authenticated users can view status transitions"
+  on public.task_status_transitions for select
+  to authenticated
+  using (true);
+
+create policy "Admins can manage status transitions"
+  on public.task_status_transitions for all
+  using (public.is_admin(auth.uid()))
+  with check (public.is_admin(auth.uid()));
+
+-- Stray values from before the statuses were checked fall back to pending
+update public.tasks set status = 'pending'
+where status not in (select key from public.task_statuses);
+
+-- Also keeps statuses that tasks still use from being deleted
+alter table public.tasks
+  add constraint tasks_status_fkey foreign key (status) references public.task_statuses(key);
+
+-- Where new tasks start: the first open status
+create or replace function public.initial_task_status()
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select key from public.task_statuses
+  where category = 'open'
+  order by position, key
+  limit 1;
+$$;
+
+create or replace function public.check_task_status_transition()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.status is distinct from old.status and not exists (
+    select 1 from public.task_status_transitions
+    where from_status = old.status and to_status = new.status
+  ) then
+    raise exception 'Tasks can''t move from "%" to "%"',
+      (select name from public.task_statuses where key = old.status),
+      (select name from public.task_statuses where key = new.status)
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_task_status_transition on public.tasks;
+create trigger check_task_status_transition
+  before update of status on public.tasks
+  for each row execute function public.check_task_status_transition();
+
+-- A blocker is open while its status isn't a done one
+create or replace function public.has_open_blockers(target_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.task_dependencies d
+    join public.tasks b on b.id = d.blocked_by_id
+    join public.task_statuses s on s.key = b.status
+    where d.task_id = target_id
+      and s.category <> 'done'
+      and b.deleted_at is null
+  );
+$$;
+
+-- Same as before, except that a blocked task may only be moved back to the initial status
+create or replace function public.bulk_update_tasks(task_ids uuid[], changes jsonb)
+returns table (task_id uuid, succeeded boolean, message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  target uuid;
+  trashed_at timestamptz := now();
+begin
+  foreach target in array task_ids loop
+    begin
+      if coalesce((changes->>'delete')::boolean, false) then
+        -- Subtasks trashed along with an earlier task in the list are already taken care of
+        if not exists (select 1 from public.tasks t where t.id = target) then
+          return query select target, false, 'Task not found';
+          continue;
+        end if;
+
+        with recursive tree as (
+          select t.id from public.tasks t where t.id = target
+          union all
+          select t.id from public.tasks t join tree on t.parent_id = tree.id
+        )
+        update public.tasks t
+        set deleted_at = trashed_at
+        where t.id in (select id from tree)
+          and t.deleted_at is null;
+      else
+        -- Bulk edits have no way to confirm an override, so blocked tasks stay where they are
+        if changes ? 'status'
+          and changes->>'status' <> public.initial_task_status()
+          and public.has_open_blockers(target) then
+          return query select target, false, 'Blocked by unfinished tasks';
+          continue;
+        end if;
+
+        update public.tasks t
+        set
+          status = case when changes ? 'status' then changes->>'status' else t.status end,
+          priority = case when changes ? 'priority' then (changes->>'priority')::integer else t.priority end,
+          due_date = case when changes ? 'due_date' then (changes->>'due_date')::timestamptz else t.due_date end,
+          user_id = case when changes ? 'user_id' then (changes->>'user_id')::uuid else t.user_id end
+        where t.id = target
+          and t.deleted_at is null;
+
+        if not found then
+          return query select target, false, 'Task not found or you cannot edit it';
+          continue;
+        end if;
+
+        if changes ? 'add_tag_id' then
+          insert into public.task_tags (task_id, tag_id)
+          values (target, (changes->>'add_tag_id')::uuid)
+          on conflict do nothing;
+        end if;
+
+        if changes ? 'remove_tag_id' then
+          delete from public.task_tags tt
+          where tt.task_id = target
+            and tt.tag_id = (changes->>'remove_tag_id')::uuid;
+        end if;
+      end if;
+
+      return query select target, true, null::text;
+    exception when others then
+      return query select target, false, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
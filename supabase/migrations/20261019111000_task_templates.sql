@@ -0,0 +1,35 @@
+-- Reusable task structures (e.g. an onboarding checklist). The task, its subtasks and their tags
+-- are stored as JSON; due dates can be placeholders like {{date+7}}, resolved when a task is
+-- created from the template.
+create table if not exists public.task_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.user_profiles(id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  content jsonb not null,
+  shared boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists task_templates_user_id_idx on public.task_templates(user_id);
+
+alter table public.task_templates enable row level security;
+
+-- Shared templates are published to the whole organization. Only admins can publish them,
+-- and admins can also maintain the ones other admins published.
+create policy "Users can view their own and shared templates"
+  on public.task_templates for select
+  using (auth.uid() = user_id or shared);
+
+create policy "Users can create their own templates"
+  on public.task_templates for insert
+  with check (auth.uid() = user_id and (not shared or public.is_admin(auth.uid())));
+
+create policy "Users can update their own templates"
+  on public.task_templates for update
+  using (auth.uid() = user_id or (shared and public.is_admin(auth.uid())))
+  with check (not shared or public.is_admin(auth.uid()));
+
+create policy "Users can delete their own templates"
+  on public.task_templates for delete
+  using (auth.uid() = user_id or (shared and public.is_admin(auth.uid())));
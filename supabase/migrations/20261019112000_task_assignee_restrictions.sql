@@ -0,0 +1,45 @@
+-- Assignees could rewrite user_id and assignee_id through their update policy, taking a task
+-- over or handing it to someone else. Only the owner or an admin may change either now.
+-- Requests without a user (the service role, scheduled jobs) are left alone.
+create or replace function public.check_task_ownership_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (new.user_id is distinct from old.user_id or new.assignee_id is distinct from old.assignee_id)
+    and auth.uid() is not null
+    and auth.uid() is distinct from old.user_id
+    and not public.is_admin(auth.uid())
+  then
+    raise exception 'Only the owner of a task or an admin can change who owns it or who it''s assigned to'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists check_task_ownership_change on public.tasks;
+create trigger check_task_ownership_change
+  before update of user_id, assignee_id on public.tasks
+  for each row execute function public.check_task_ownership_change();
+
+drop policy if exists "Assignees can update tasks assigned to them" on public.tasks;
+create policy "Assignees can update tasks assigned to them"
+  on public.tasks for update
+  using (auth.uid() = assignee_id)
+  with check (auth.uid() = assignee_id);
+
+-- Every profile used to be readable, roles included. Teammates now only see each other's id and
+-- email, through a view that reads user_profiles as its owner.
+drop policy if exists "Authenticated users can view profiles" on public.user_profiles;
+
+create or replace view public.user_directory
+with (security_invoker = false)
+as
+  select id, email from public.user_profiles;
+
+revoke all on public.user_directory from anon, public;
+grant select on public.user_directory to authenticated;
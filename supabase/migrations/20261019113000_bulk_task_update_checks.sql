@@ -0,0 +1,94 @@
+-- Same as before, with two fixes:
+-- - delete reported success for tasks it didn't trash: ones already in the Trash, or ones row
+--   level security hid from the update. It now checks what happened to the task itself.
+-- - user_id (a new owner) is only accepted from admins
+create or replace function public.bulk_update_tasks(task_ids uuid[], changes jsonb)
+returns table (task_id uuid, succeeded boolean, message text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  target uuid;
+  target_deleted_at timestamptz;
+  trashed_at timestamptz := now();
+begin
+  foreach target in array task_ids loop
+    begin
+      if coalesce((changes->>'delete')::boolean, false) then
+        with recursive tree as (
+          select t.id from public.tasks t where t.id = target
+          union all
+          select t.id from public.tasks t join tree on t.parent_id = tree.id
+        )
+        update public.tasks t
+        set deleted_at = trashed_at
+        where t.id in (select id from tree)
+          and t.deleted_at is null;
+
+        select t.deleted_at into target_deleted_at from public.tasks t where t.id = target;
+
+        if not found then
+          return query select target, false, 'Task not found';
+          continue;
+        end if;
+
+        if target_deleted_at is null then
+          return query select target, false, 'Task not found or you cannot edit it';
+          continue;
+        end if;
+
+        -- Subtasks trashed along with an earlier task in the list carry this call's timestamp
+        if target_deleted_at <> trashed_at then
+          return query select target, false, 'Task is already in the Trash';
+          continue;
+        end if;
+      else
+        if changes ? 'user_id' and not public.is_admin(auth.uid()) then
+          return query select target, false, 'Only admins can change the owner of a task';
+          continue;
+        end if;
+
+        -- Bulk edits have no way to confirm an override, so blocked tasks stay where they are
+        if changes ? 'status'
+          and changes->>'status' <> public.initial_task_status()
+          and public.has_open_blockers(target) then
+          return query select target, false, 'Blocked by unfinished tasks';
+          continue;
+        end if;
+
+        update public.tasks t
+        set
+          status = case when changes ? 'status' then changes->>'status' else t.status end,
+          priority = case when changes ? 'priority' then (changes->>'priority')::integer else t.priority end,
+          due_date = case when changes ? 'due_date' then (changes->>'due_date')::timestamptz else t.due_date end,
+          user_id = case when changes ? 'user_id' then (changes->>'user_id')::uuid else t.user_id end
+        where t.id = target
+          and t.deleted_at is null;
+
+        if not found then
+          return query select target, false, 'Task not found or you cannot edit it';
+          continue;
+        end if;
+
+        if changes ? 'add_tag_id' then
+          insert into public.task_tags (task_id, tag_id)
+          values (target, (changes->>'add_tag_id')::uuid)
+          on conflict do nothing;
+        end if;
+
+        if changes ? 'remove_tag_id' then
+          delete from public.task_tags tt
+          where tt.task_id = target
+            and tt.tag_id = (changes->>'remove_tag_id')::uuid;
+        end if;
+      end if;
+
+      return query select target, true, null::text;
+    exception when others then
+      return query select target, false, sqlerrm;
+    end;
+  end loop;
+end;
+$$;
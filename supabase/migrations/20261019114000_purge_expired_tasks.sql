@@ -0,0 +1,49 @@
+-- Tasks that have sat in the Trash longer than their owner's retention period are purged once a
+-- day by the purge-expired-tasks edge function, which also removes their attachment files.
+-- This used to run in the browser whenever the task list opened, so it only happened for users
+-- who came back, and only for their own tasks.
+
+-- Expired tasks and everything under them, including subtasks trashed later on their own,
+-- since deleting a parent takes them along
+create or replace function public.expired_trashed_tasks()
+returns table (id uuid)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with recursive expired as (
+    select t.id
+    from public.tasks t
+    left join public.user_preferences p on p.user_id = t.user_id
+    where t.deleted_at < now() - make_interval(days => coalesce(p.trash_retention_days, 30))
+    union
+    select t.id from public.tasks t join expired e on t.parent_id = e.id
+  )
+  select id from expired;
+$$;
+
+-- Only the edge function, with the service role, needs this
+revoke execute on function public.expired_trashed_tasks() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net with schema extensions;
+
+-- Reads the project URL and service role key from Vault. Store them once per project:
+--   select vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   select vault.create_secret('<service role key>', 'service_role_key');
+select cron.schedule(
+  'purge-expired-tasks',
+  '0 3 * * *',
+  $$
+    select net.http_post(
+      url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+        || '/functions/v1/purge-expired-tasks',
+      headers := jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+      ),
+      body := '{}'::jsonb
+    );
+  $$
+);
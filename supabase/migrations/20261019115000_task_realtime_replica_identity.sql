@@ -0,0 +1,4 @@
+-- Full replica identity didn't put the old row on delete events: Realtime sends deletes to every
+-- subscriber, unfiltered by RLS, with only the primary key. The client only reads that id, so
+-- the extra logging is dropped.
+alter table public.tasks replica identity default;
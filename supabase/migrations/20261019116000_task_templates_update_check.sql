@@ -0,0 +1,12 @@
+-- The update check didn't look at the owner, so the owner of a private template could hand it
+-- to another user by changing user_id. The new row must still belong to the editor, unless an
+-- admin is editing it.
+drop policy if exists "Users can update their own templates" on public.task_templates;
+
+create policy "Users can update their own templates"
+  on public.task_templates for update
+  using (auth.uid() = user_id or (shared and public.is_admin(auth.uid())))
+  with check (
+    (auth.uid() = user_id or public.is_admin(auth.uid()))
+    and (not shared or public.is_admin(auth.uid()))
+  );
@@ -0,0 +1,20 @@
+-- Tagging only checked access to the task, so anyone could attach another user's tag and then
+-- read its name and colour through "Users can view tags attached to tasks they can access".
+-- The tag must now belong to the caller or to the task's owner (recurring tasks carry the
+-- owner's tags forward when an assignee completes them), unless an admin is tagging.
+drop policy if exists "Users can tag tasks they can access" on public.task_tags;
+
+create policy "Users can tag tasks they can access"
+  on public.task_tags for insert
+  with check (
+    public.can_access_task(task_id)
+    and exists (
+      select 1 from public.tags g
+      where g.id = tag_id
+        and (
+          g.user_id = auth.uid()
+          or g.user_id = (select t.user_id from public.tasks t where t.id = task_id)
+          or public.is_admin(auth.uid())
+        )
+    )
+  );
@@ -0,0 +1,12 @@
+-- The update policy had no check on the new row, so an author could move their comment to a
+-- task they can't access or hand it to another user. The comment must still be theirs and on a
+-- task they can access after the update, unless an admin is moderating it.
+drop policy if exists "Authors and admins can update comments" on public.task_comments;
+
+create policy "Authors and admins can update comments"
+  on public.task_comments for update
+  using (auth.uid() = user_id or public.is_admin(auth.uid()))
+  with check (
+    (auth.uid() = user_id and public.can_access_task(task_id))
+    or public.is_admin(auth.uid())
+  );
@@ -0,0 +1,12 @@
+-- Search results used to be narrowed with `id=in.(...)`, which puts up to 200 ids in the URL and
+-- runs into proxy and PostgREST length limits. This takes the ids in the request body instead and
+-- returns the tasks as rows, so the client can still embed, filter and order them as usual.
+-- Runs as the caller, so row level security still decides which of them come back.
+create or replace function public.tasks_by_id(task_ids uuid[])
+returns setof public.tasks
+language sql
+stable
+set search_path = public
+as $$
+  select * from public.tasks where id = any(task_ids);
+$$;
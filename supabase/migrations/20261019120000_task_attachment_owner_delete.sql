@@ -0,0 +1,19 @@
+-- Only the uploader or an admin could delete an attachment file, so when an owner permanently
+-- deleted a task, files an assignee had uploaded stayed in the bucket with nothing pointing at
+-- them. The task's owner can now delete any file stored under it as well.
+drop policy if exists "Uploaders and admins can delete attachment files" on storage.objects;
+
+create policy "Uploaders, task owners and admins can delete attachment files"
+  on storage.objects for delete
+  using (
+    bucket_id = 'task-attachments'
+    and (
+      owner_id = auth.uid()::text
+      or public.is_admin(auth.uid())
+      or exists (
+        select 1 from public.tasks t
+        where t.id = ((storage.foldername(name))[1])::uuid
+          and t.user_id = auth.uid()
+      )
+    )
+  );
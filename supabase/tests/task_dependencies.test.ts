@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+
+// Runs the dependency table and cycle check exactly as the migration defines them, against a
+// stand-in tasks table
+const migration = readFileSync(
+  new URL('../migrations/20261019109000_task_dependencies.sql', import.meta.url),
+  'utf8'
+);
+
+const statement = (start: string, end: string) => {
+  const from = migration.indexOf(start);
+  const to = migration.indexOf(end, from);
+  if (from === -1 || to === -1) throw new Error(`"${start}" isn't in the migration`);
+  return migration.slice(from, to + end.length);
+};
+
+const A = '00000000-0000-0000-0000-00000000000a';
+const B = '00000000-0000-0000-0000-00000000000b';
+const C = '00000000-0000-0000-0000-00000000000c';
+const D = '00000000-0000-0000-0000-00000000000d';
+
+let db: PGlite;
+
+// Records that `task` is blocked by `blockedBy`
+const link = (task: string, blockedBy: string) =>
+  db.query('insert into public.task_dependencies (task_id, blocked_by_id) values ($1, $2)', [task, blockedBy]);
+
+beforeAll(async () => {
+  db = new PGlite();
+  await db.exec(`
+    create table public.tasks (id uuid primary key);
+    insert into public.tasks (id) values ('${A}'), ('${B}'), ('${C}'), ('${D}');
+  `);
+  await db.exec(statement('create table if not exists public.task_dependencies', ');'));
+  await db.exec(statement('create or replace function public.check_task_dependency_cycle()', '$$;'));
+  await db.exec(statement('create trigger check_task_dependency_cycle', ';'));
+});
+
+afterAll(() => db.close());
+
+beforeEach(() => db.exec('delete from public.task_dependencies'));
+
+describe('check_task_dependency_cycle', () => {
+  it('accepts links that form a chain or a diamond', async () => {
+    await link(B, A);
+    await link(C, B);
+    await link(D, B);
+    await link(D, C);
+    await link(D, A);
+
+    const { rows } = await db.query('select count(*)::int as count from public.task_dependencies');
+    expect(rows).toEqual([{ count: 5 }]);
+  });
+
+  it('rejects a link back to the blocking task', async () => {
+    await link(B, A);
+    await expect(link(A, B)).rejects.toMatchObject({
+      code: '23514',
+      message: 'This dependency would create a cycle',
+    });
+  });
+
+  it('rejects a link that closes a longer loop', async () => {
+    await link(B, A);
+    await link(C, B);
+    await link(D, C);
+    await expect(link(A, D)).rejects.toMatchObject({ code: '23514' });
+  });
+
+  it('rejects a cycle made by updating an existing link', async () => {
+    await link(B, A);
+    await link(C, B);
+    await expect(
+      db.query('update public.task_dependencies set task_id = $1, blocked_by_id = $2 where task_id = $3', [A, C, C])
+    ).rejects.toMatchObject({ code: '23514' });
+  });
+
+  it('rejects a task blocking itself', async () => {
+    await expect(link(A, A)).rejects.toMatchObject({ code: '23514' });
+  });
+});
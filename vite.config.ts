@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -19,4 +20,9 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    // Component tests opt into jsdom with a `@vitest-environment jsdom` comment
+    environment: "node",
+    include: ["src/**/*.test.{ts,tsx}", "supabase/tests/**/*.test.ts"],
+  },
 }));